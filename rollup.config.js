@@ -6,6 +6,8 @@ import dts from 'rollup-plugin-dts';
 import nodePolyfills from 'rollup-plugin-polyfill-node';
 
 const external = ['axios', 'ws', 'crypto-js', 'events'];
+// The testing entry point runs a local server and only targets Node
+const testingExternal = [...external, 'http', 'net', 'crypto', 'fs'];
 
 export default [
   // ES Module build
@@ -87,5 +89,42 @@ export default [
     },
     external,
     plugins: [dts()]
+  },
+  // Testing entry point (capital-api-client/testing)
+  {
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing.esm.js',
+        format: 'es',
+        sourcemap: true
+      },
+      {
+        file: 'dist/testing.cjs',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named'
+      }
+    ],
+    external: testingExternal,
+    plugins: [
+      resolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      json(),
+      typescript({
+        tsconfig: './tsconfig.build.json'
+      })
+    ]
+  },
+  {
+    input: 'src/testing/index.ts',
+    output: {
+      file: 'dist/testing.d.ts',
+      format: 'es'
+    },
+    external: testingExternal,
+    plugins: [dts()]
   }
 ];
\ No newline at end of file
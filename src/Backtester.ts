@@ -0,0 +1,310 @@
+import { priceSnapshotToCandle, priceSnapshotToTicks } from './candles';
+import { NotFoundError } from './errors';
+import { parseApiTime } from './history';
+import { DEFAULT_LEVERAGES, PaperBook, PaperMarket, PaperPosition } from './PaperBook';
+import {
+  ActivitySource,
+  BacktestConfig,
+  Balance,
+  Candle,
+  CreatePositionRequest,
+  CreateWorkingOrderRequest,
+  DealConfirmation,
+  Direction,
+  HistoricalPricesResponse,
+  InstrumentType,
+  PositionResponse,
+  PriceSnapshot,
+  Resolution,
+  UpdatePositionRequest,
+  UpdateWorkingOrderRequest,
+  WorkingOrderResponse
+} from './types';
+
+export const DEFAULT_BACKTEST_CONFIG: Required<BacktestConfig> = {
+  balance: 10000,
+  currency: 'USD',
+  leverages: DEFAULT_LEVERAGES,
+  spread: 0,
+  overnightFees: {}
+};
+
+// Overnight funding is charged daily at 22:00 UTC
+const ROLLOVER_HOUR_MS = 22 * 3600000;
+const DAY_MS = 86400000;
+
+// What a strategy sees and trades through after each bar
+export interface BacktestContext {
+  epic: string;
+  // The bar that just closed, at mid prices
+  candle: Candle;
+  // Every bar so far, oldest first, ending with `candle`
+  candles: Candle[];
+  getBalance(): Balance;
+  getPositions(): PositionResponse[];
+  getWorkingOrders(): WorkingOrderResponse[];
+  // Deals fill at the closing price of the bar; rejected deals are confirmed as REJECTED
+  createPosition(request: CreatePositionRequest): DealConfirmation;
+  updatePosition(dealId: string, request: UpdatePositionRequest): DealConfirmation;
+  closePosition(dealId: string): DealConfirmation;
+  createWorkingOrder(request: CreateWorkingOrderRequest): DealConfirmation;
+  updateWorkingOrder(dealId: string, request: UpdateWorkingOrderRequest): DealConfirmation;
+  deleteWorkingOrder(dealId: string): DealConfirmation;
+}
+
+export type BacktestStrategy = (context: BacktestContext) => void | Promise<void>;
+
+export interface BacktestOptions {
+  epic: string;
+  resolution: Resolution;
+  // A `getHistoricalPrices` response (e.g. saved to a file), its bars, or `iterateHistoricalPrices`
+  prices: HistoricalPricesResponse | PriceSnapshot[] | AsyncIterable<PriceSnapshot>;
+  // Default: the response's instrumentType, else 'CURRENCIES'
+  instrumentType?: InstrumentType;
+  strategy: BacktestStrategy;
+}
+
+export interface BacktestTrade {
+  dealId: string;
+  direction: Direction;
+  size: number;
+  openTime: number;
+  openLevel: number;
+  closeTime: number;
+  closeLevel: number;
+  // Realized on the price move
+  profitLoss: number;
+  // Overnight fees charged while open
+  fees: number;
+  // 'USER' when the strategy closed it, 'SL' or 'TP' at its levels, 'SYSTEM' when the data ran out
+  closedBy: ActivitySource;
+}
+
+export interface EquityPoint {
+  // Bar open time in milliseconds since epoch (UTC)
+  time: number;
+  // Balance plus open profit and loss at the bar's close
+  equity: number;
+  // Distance below the highest equity so far
+  drawdown: number;
+}
+
+export interface BacktestResult {
+  startBalance: number;
+  endBalance: number;
+  netProfit: number;
+  // Overnight fees of all trades
+  fees: number;
+  trades: BacktestTrade[];
+  equity: EquityPoint[];
+  maxDrawdown: number;
+  // Of the equity peak the drawdown started from
+  maxDrawdownPercent: number;
+  // Percentage of trades closed with a profit after fees; 0 without trades
+  winRate: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function toApiDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 23);
+}
+
+// Number of 22:00 UTC rollovers in (from, to]
+function countRollovers(from: number, to: number): number {
+  return Math.floor((to - ROLLOVER_HOUR_MS) / DAY_MS) - Math.floor((from - ROLLOVER_HOUR_MS) / DAY_MS);
+}
+
+function toBars(prices: BacktestOptions['prices']): PriceSnapshot[] | AsyncIterable<PriceSnapshot> {
+  const bars = Array.isArray(prices) ? prices : 'prices' in prices ? prices.prices : undefined;
+  if (!bars) {
+    return prices as AsyncIterable<PriceSnapshot>;
+  }
+  return bars.slice().sort((a, b) => parseApiTime(a.snapshotTimeUTC).getTime() - parseApiTime(b.snapshotTimeUTC).getTime());
+}
+
+/**
+ * Runs a strategy over historical bars against a simulated account.
+ *
+ * Each bar is replayed as four ticks (see `priceSnapshotToTicks`) through a `PaperBook`,
+ * so working orders, stops and profit levels fill as they would in paper trading. After
+ * each bar the strategy trades at its closing price. Margin follows the leverage for the
+ * instrument type, and open positions pay the overnight fee at every rollover. Positions
+ * still open when the bars run out are closed at the last price.
+ */
+export class Backtester {
+  private readonly config: Required<BacktestConfig>;
+
+  constructor(config: BacktestConfig = {}) {
+    this.config = {
+      ...DEFAULT_BACKTEST_CONFIG,
+      ...config,
+      leverages: { ...DEFAULT_BACKTEST_CONFIG.leverages, ...config.leverages }
+    };
+  }
+
+  async run(options: BacktestOptions): Promise<BacktestResult> {
+    const { epic, resolution, strategy } = options;
+    const instrumentType = options.instrumentType ||
+      (!Array.isArray(options.prices) && 'instrumentType' in options.prices ? options.prices.instrumentType : undefined) ||
+      'CURRENCIES';
+    const marginFactor = 100 / this.config.leverages[instrumentType]!;
+    const feeRate = this.config.overnightFees[instrumentType] || 0;
+    const halfSpread = this.config.spread / 2;
+
+    let cash = this.config.balance;
+    let time = 0;
+    let bid = 0;
+    let offer = 0;
+    let ending = false;
+    const fees = new Map<string, number>();
+    const trades: BacktestTrade[] = [];
+
+    const getMarket = (requested: string): PaperMarket => {
+      if (requested !== epic) {
+        throw new NotFoundError('API Error (404): error.not-found.epic', { status: 404, errorCode: 'error.not-found.epic' });
+      }
+      return {
+        epic,
+        bid,
+        offer,
+        currency: this.config.currency,
+        marginFactor,
+        minDealSize: 0,
+        tradeable: true,
+        market: {
+          instrumentName: epic,
+          expiry: '-',
+          marketStatus: 'TRADEABLE',
+          epic,
+          symbol: epic,
+          instrumentType,
+          lotSize: 1,
+          high: 0,
+          low: 0,
+          percentageChange: 0,
+          netChange: 0,
+          bid,
+          offer,
+          updateTime: toApiDate(time),
+          updateTimeUTC: toApiDate(time),
+          delayTime: 0,
+          streamingPricesAvailable: false,
+          scalingFactor: 1,
+          marketModes: []
+        }
+      };
+    };
+
+    const book = new PaperBook({
+      getMarket,
+      getCash: () => cash,
+      adjustCash: amount => {
+        cash = round(cash + amount);
+      },
+      now: () => time
+    });
+    book.on('closed', (position: PaperPosition, level: number, profitLoss: number, source: ActivitySource) => {
+      trades.push({
+        dealId: position.dealId,
+        direction: position.direction,
+        size: position.size,
+        openTime: position.createdAt,
+        openLevel: position.level,
+        closeTime: time,
+        closeLevel: level,
+        profitLoss,
+        fees: fees.get(position.dealId) || 0,
+        closedBy: ending ? 'SYSTEM' : source
+      });
+    });
+
+    // Charge open positions for each rollover since the last tick, at the last price
+    const chargeOvernight = (until: number) => {
+      const nights = feeRate > 0 && time > 0 ? countRollovers(time, until) : 0;
+      if (nights === 0) {
+        return;
+      }
+      book.getPositions().forEach(({ position }) => {
+        const level = position.direction === 'BUY' ? bid : offer;
+        const fee = round(position.size * level * feeRate / 365 * nights);
+        cash = round(cash - fee);
+        fees.set(position.dealId, round((fees.get(position.dealId) || 0) + fee));
+        book.addTransaction({
+          reference: position.dealId,
+          transactionType: 'SWAP',
+          transactionId: position.dealId,
+          date: toApiDate(until),
+          dateUTC: toApiDate(until),
+          openLevel: String(position.level),
+          closeLevel: String(level),
+          size: String(position.size),
+          currency: this.config.currency,
+          cash: String(-fee),
+          pnl: String(-fee)
+        });
+      });
+    };
+
+    const confirm = (dealReference: string) => book.getConfirmation(dealReference);
+    const trading = {
+      getBalance: () => book.getBalance(),
+      getPositions: () => book.getPositions(),
+      getWorkingOrders: () => book.getWorkingOrders(),
+      createPosition: (request: CreatePositionRequest) => confirm(book.createPosition(request)),
+      updatePosition: (dealId: string, request: UpdatePositionRequest) => confirm(book.updatePosition(dealId, request)),
+      closePosition: (dealId: string) => confirm(book.closePosition(dealId)),
+      createWorkingOrder: (request: CreateWorkingOrderRequest) => confirm(book.createWorkingOrder(request)),
+      updateWorkingOrder: (dealId: string, request: UpdateWorkingOrderRequest) => confirm(book.updateWorkingOrder(dealId, request)),
+      deleteWorkingOrder: (dealId: string) => confirm(book.deleteWorkingOrder(dealId))
+    };
+
+    const candles: Candle[] = [];
+    const equity: EquityPoint[] = [];
+    let peak = -Infinity;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+
+    for await (const bar of toBars(options.prices)) {
+      priceSnapshotToTicks(bar, resolution).forEach(tick => {
+        chargeOvernight(tick.time);
+        time = tick.time;
+        bid = round(tick.bid - halfSpread);
+        offer = round(tick.offer + halfSpread);
+        book.match(epic);
+      });
+
+      const candle = priceSnapshotToCandle(bar, { epic, resolution, side: 'mid' });
+      candles.push(candle);
+      await strategy({ epic, candle, candles, ...trading });
+
+      const balance = book.getBalance();
+      const value = round(balance.balance + balance.profitLoss);
+      peak = Math.max(peak, value);
+      const drawdown = round(peak - value);
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+        maxDrawdownPercent = peak > 0 ? round(drawdown / peak * 100) : 0;
+      }
+      equity.push({ time: candle.time, equity: value, drawdown });
+    }
+
+    ending = true;
+    book.getPositions().forEach(({ position }) => book.closePosition(position.dealId));
+
+    const wins = trades.filter(trade => trade.profitLoss - trade.fees > 0).length;
+    return {
+      startBalance: this.config.balance,
+      endBalance: cash,
+      netProfit: round(cash - this.config.balance),
+      fees: round(trades.reduce((sum, trade) => sum + trade.fees, 0)),
+      trades,
+      equity,
+      maxDrawdown,
+      maxDrawdownPercent,
+      winRate: trades.length > 0 ? round(wins / trades.length * 100) : 0
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { EventEmitter } from 'events';
+import { CapitalWebSocket } from './CapitalWebSocket';
+import { ohlcToCandle, toMidCandle } from './candles';
+import { formatApiTime, MAX_HISTORICAL_BARS } from './history';
+import { Candle, CandleSeriesConfig, OHLCData, PriceSide, Resolution } from './types';
+
+export type CandleFetcher = (epic: string, params: {
+  resolution: Resolution;
+  max?: number;
+  from?: string;
+  to?: string;
+  side?: PriceSide;
+}) => Promise<Candle[]>;
+
+/**
+ * A continuous candle series: REST history followed by bars from the OHLC stream.
+ *
+ * Events:
+ * - `barUpdate` - the in-progress bar changed (or a new one started)
+ * - `barClose` - a bar was completed because a newer one arrived
+ * - `error` - subscribing on connect or re-fetching a gap after a reconnect failed; only
+ *   emitted while someone listens, so the failure cannot throw from the connection's events
+ */
+export class CandleSeries extends EventEmitter {
+  private readonly fetchCandles: CandleFetcher;
+  private readonly epic: string;
+  private readonly resolution: Resolution;
+  private readonly side: PriceSide;
+  private readonly backfill: number;
+  private readonly maxBars: number;
+  private candles: Candle[] = [];
+  // Latest streamed bar per side, combined into mid bars
+  private streamed: { bid?: Candle; ask?: Candle } = {};
+  private webSocket?: CapitalWebSocket;
+  private subscribed = false;
+  private disconnected = false;
+
+  constructor(fetchCandles: CandleFetcher, config: CandleSeriesConfig) {
+    super();
+    this.fetchCandles = fetchCandles;
+    this.epic = config.epic;
+    this.resolution = config.resolution;
+    this.side = config.side || 'bid';
+    this.backfill = Math.min(config.backfill ?? MAX_HISTORICAL_BARS, MAX_HISTORICAL_BARS);
+    this.maxBars = config.maxBars ?? 5000;
+  }
+
+  getCandles(): Candle[] {
+    return [...this.candles];
+  }
+
+  getCurrentBar(): Candle | undefined {
+    return this.candles[this.candles.length - 1];
+  }
+
+  // Load history, then follow the OHLC stream of the given connection; rejects when either fails
+  async start(webSocket?: CapitalWebSocket): Promise<void> {
+    const candles = await this.fetchCandles(this.epic, {
+      resolution: this.resolution,
+      max: this.backfill,
+      side: this.side
+    });
+    this.candles = [...candles].sort((a, b) => a.time - b.time).slice(-this.maxBars);
+
+    if (webSocket) {
+      this.webSocket = webSocket;
+      webSocket.on('ohlc', this.onOhlc);
+      webSocket.on('connect', this.onConnect);
+      webSocket.on('disconnect', this.onDisconnect);
+      if (webSocket.isConnectedToServer()) {
+        await this.subscribe();
+      }
+    }
+  }
+
+  stop(): void {
+    if (!this.webSocket) {
+      return;
+    }
+
+    this.webSocket.off('ohlc', this.onOhlc);
+    this.webSocket.off('connect', this.onConnect);
+    this.webSocket.off('disconnect', this.onDisconnect);
+    if (this.subscribed && this.webSocket.isConnectedToServer()) {
+      this.webSocket.unsubscribeFromOHLCData([this.epic], [this.resolution]);
+    }
+    this.subscribed = false;
+    this.webSocket = undefined;
+  }
+
+  // Re-fetch bars from the current bar onwards; resolves to the number of new bars
+  async fillGap(): Promise<number> {
+    const current = this.getCurrentBar();
+    const candles = await this.fetchCandles(this.epic, {
+      resolution: this.resolution,
+      max: MAX_HISTORICAL_BARS,
+      side: this.side,
+      ...(current ? { from: formatApiTime(new Date(current.time)), to: formatApiTime(new Date()) } : {})
+    });
+
+    const count = this.candles.length;
+    [...candles].sort((a, b) => a.time - b.time).forEach(candle => this.apply(candle));
+    return Math.max(0, this.candles.length - count);
+  }
+
+  private subscribe(): Promise<void> {
+    this.subscribed = true;
+    return this.webSocket!.subscribeToOHLCData([this.epic], [this.resolution]).then(() => undefined, error => {
+      // Tried again on the next connect
+      this.subscribed = false;
+      throw error;
+    });
+  }
+
+  private onOhlc = (data: OHLCData): void => {
+    if (data.epic !== this.epic || data.resolution !== this.resolution || (data.type && data.type !== 'classic')) {
+      return;
+    }
+
+    const candle = ohlcToCandle(data);
+    if (this.side !== 'mid') {
+      if (candle.side === this.side) {
+        this.apply(candle);
+      }
+      return;
+    }
+
+    this.streamed[candle.side as 'bid' | 'ask'] = candle;
+    const { bid, ask } = this.streamed;
+    if (bid && ask && bid.time === ask.time) {
+      this.apply(toMidCandle(bid, ask));
+    }
+  };
+
+  private onDisconnect = (): void => {
+    this.disconnected = true;
+  };
+
+  private onConnect = (): void => {
+    if (!this.subscribed) {
+      this.subscribe().catch(error => this.reportError(error));
+    }
+    if (!this.disconnected) {
+      return;
+    }
+
+    // Bars may have been missed while the stream was down
+    this.disconnected = false;
+    this.fillGap().catch(error => this.reportError(error));
+  };
+
+  private reportError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  private apply(candle: Candle): void {
+    const current = this.getCurrentBar();
+
+    if (!current || candle.time > current.time) {
+      if (current) {
+        this.emit('barClose', current);
+      }
+      this.candles.push(candle);
+      if (this.candles.length > this.maxBars) {
+        this.candles.shift();
+      }
+      this.emit('barUpdate', candle);
+    } else if (candle.time === current.time) {
+      // Streamed bars carry no volume; keep the one from REST
+      const updated = candle.volume === undefined && current.volume !== undefined
+        ? { ...candle, volume: current.volume }
+        : candle;
+      this.candles[this.candles.length - 1] = updated;
+      this.emit('barUpdate', updated);
+    }
+    // Updates for bars older than the current one are ignored
+  }
+}
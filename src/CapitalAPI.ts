@@ -1,8 +1,32 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import * as crypto from 'crypto-js';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  Method
+} from 'axios';
 import { CapitalWebSocket, CapitalWebSocketConfig } from './CapitalWebSocket';
+import { encryptPassword } from './encryption';
+import { DealValidator } from './DealValidator';
+import { PaperTrader } from './PaperTrader';
+import { MarketCalendar, MarketHours } from './MarketHours';
+import {
+  DealConfirmationTimeoutError,
+  DealValidationError,
+  DealRejectedError,
+  NotFoundError,
+  toCapitalApiError
+} from './errors';
+import { SessionManager } from './SessionManager';
+import { RateLimiter } from './RateLimiter';
+import { RetryPolicy, sleep } from './retry';
+import { iterateHistoricalPrices } from './history';
+import { historicalPricesToCandles } from './candles';
+import { CandleSeries } from './CandleSeries';
 import { 
   CapitalAPIConfig,
+  CredentialsProvider,
   SessionCredentials,
   EncryptionKeyResponse,
   SessionResponse,
@@ -28,10 +52,18 @@ import {
   UpdateWorkingOrderRequest,
   WorkingOrdersResponse,
   DealConfirmation,
+  DealConfirmationOptions,
+  DealValidationResult,
   NavigationResponse,
   MarketsResponse,
   MarketDetailsResponse,
+  WeeklySchedule,
   HistoricalPricesResponse,
+  HistoricalPricesRangeOptions,
+  PriceSnapshot,
+  PriceSide,
+  Candle,
+  CandleSeriesConfig,
   ClientSentimentsResponse,
   ClientSentiment,
   Resolution,
@@ -42,6 +74,14 @@ import {
   AddMarketToWatchlistRequest
 } from './types';
 
+interface RenewableRequestConfig extends InternalAxiosRequestConfig {
+  _sessionRenewed?: boolean;
+  // Sent while logging in, which a renewal may be waiting on
+  _sessionLogin?: boolean;
+}
+
+type RequestConfig = AxiosRequestConfig & Pick<RenewableRequestConfig, '_sessionLogin'> & { method: Method; url: string };
+
 export class CapitalAPI {
   private baseUrl: string;
   private client: AxiosInstance;
@@ -49,6 +89,19 @@ export class CapitalAPI {
   private cst?: string;
   private securityToken?: string;
   private webSocket?: CapitalWebSocket;
+  private autoRenewSession: boolean;
+  private credentials?: SessionCredentials | CredentialsProvider;
+  private sessionLogin?: () => Promise<SessionResponse>;
+  private sessionRenewal?: Promise<void>;
+  private renewingSession = false;
+  private sessionManager: SessionManager;
+  private rateLimiter?: RateLimiter;
+  private retryPolicy?: RetryPolicy;
+  private dealValidator: DealValidator;
+  private preTradeValidation: boolean;
+  private paperTrader?: PaperTrader;
+  private marketCalendar: MarketCalendar;
+  private timezoneOffset?: number;
 
   constructor(config: CapitalAPIConfig = {}) {
     this.baseUrl = config.demoMode 
@@ -56,6 +109,34 @@ export class CapitalAPI {
       : config.baseUrl || 'https://api-capital.backend-capital.com';
     
     this.apiKey = config.apiKey;
+    this.autoRenewSession = config.autoRenewSession ?? false;
+    this.credentials = config.credentials;
+    this.sessionManager = new SessionManager(() => this.ping(), config.sessionKeepAlive);
+    // Once the server-side session has timed out the tokens are useless
+    this.sessionManager.on('sessionLost', () => this.clearSession());
+
+    this.preTradeValidation = !!config.preTradeValidation;
+    this.dealValidator = new DealValidator(
+      (epic) => this.getMarketDetails(epic),
+      typeof config.preTradeValidation === 'object' ? config.preTradeValidation.cacheTtl : undefined
+    );
+
+    if (config.paperTrading) {
+      this.paperTrader = new PaperTrader(
+        (epic) => this.getMarketDetails(epic),
+        typeof config.paperTrading === 'object' ? config.paperTrading : undefined
+      );
+    }
+
+    this.marketCalendar = new MarketCalendar((epic) => this.getMarketDetails(epic), () => this.timezoneOffset);
+
+    if (config.retry) {
+      this.retryPolicy = new RetryPolicy(typeof config.retry === 'object' ? config.retry : undefined);
+    }
+
+    if (config.rateLimit !== false) {
+      this.rateLimiter = new RateLimiter(typeof config.rateLimit === 'object' ? config.rateLimit : undefined);
+    }
     
     this.client = axios.create({
       baseURL: this.baseUrl,
@@ -80,19 +161,114 @@ export class CapitalAPI {
       return config;
     });
 
+    // Queue requests until the rate limiter lets them through
+    this.client.interceptors.request.use(async (config) => {
+      if (this.rateLimiter) {
+        await this.rateLimiter.acquire(RateLimiter.classify(config.method, config.url));
+      }
+      return config;
+    });
+
     // Add response interceptor for error handling
     this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
+      (response) => {
+        if (response.config?.headers?.['CST']) {
+          this.sessionManager.recordActivity();
+        }
+        return response;
+      },
+      async (error) => {
+        if (this.isSessionExpiredError(error)) {
+          const request = error.config as RenewableRequestConfig | undefined;
+          if (request && this.canRenewSession(request)) {
+            return this.retryWithRenewedSession(request, error);
+          }
           // Clear authentication tokens on unauthorized
           this.clearSession();
+          this.sessionManager.lost('unauthorized');
         }
         return Promise.reject(error);
       }
     );
   }
 
+  // Session renewal
+  private isSessionExpiredError(error: AxiosError<any>): boolean {
+    return error.response?.status === 401 ||
+      error.response?.data?.errorCode === 'error.invalid.session.token';
+  }
+
+  private canRenewSession(request: RenewableRequestConfig): boolean {
+    if (!this.autoRenewSession || !this.sessionLogin || request._sessionRenewed) {
+      return false;
+    }
+    // The renewal's own login cannot wait on the renewal
+    if (this.renewingSession && request._sessionLogin) {
+      return false;
+    }
+    // Never renew in order to log out
+    return !(request.method === 'delete' && request.url === '/api/v1/session');
+  }
+
+  private async retryWithRenewedSession(request: RenewableRequestConfig, error: AxiosError): Promise<AxiosResponse> {
+    request._sessionRenewed = true;
+
+    // Another request may already have renewed the session since this one was sent
+    if (!this.cst || request.headers['CST'] === this.cst) {
+      try {
+        await this.renewSession();
+      } catch {
+        this.clearSession();
+        this.sessionManager.lost('renewalFailed');
+        return Promise.reject(error);
+      }
+    }
+
+    request.headers['CST'] = this.cst;
+    request.headers['X-SECURITY-TOKEN'] = this.securityToken;
+    return this.client.request(request);
+  }
+
+  private renewSession(): Promise<void> {
+    // Concurrent failures share a single renewal
+    if (!this.sessionRenewal) {
+      this.sessionRenewal = this.performSessionRenewal().finally(() => {
+        this.sessionRenewal = undefined;
+      });
+    }
+    return this.sessionRenewal;
+  }
+
+  private async performSessionRenewal(): Promise<void> {
+    const login = this.sessionLogin;
+    if (!login) {
+      throw new Error('No credentials available to renew the session');
+    }
+
+    this.clearSession();
+    this.renewingSession = true;
+    try {
+      await login();
+    } finally {
+      this.renewingSession = false;
+    }
+
+    if (this.webSocket && this.cst && this.securityToken) {
+      this.webSocket.updateTokens(this.cst, this.securityToken);
+    }
+  }
+
+  private rememberSessionLogin(login: () => Promise<SessionResponse>): void {
+    if (!this.autoRenewSession) {
+      return;
+    }
+
+    const provider = this.credentials;
+    this.sessionLogin = provider
+      ? async () => this.createSession(typeof provider === 'function' ? await provider() : provider)
+      : login;
+  }
+
   // Utility methods
   private clearSession(): void {
     this.cst = undefined;
@@ -112,6 +288,15 @@ export class CapitalAPI {
     return !!this.cst && !!this.securityToken;
   }
 
+  public getSessionManager(): SessionManager {
+    return this.sessionManager;
+  }
+
+  // The simulated book behind `paperTrading` mode
+  public getPaperTrader(): PaperTrader | undefined {
+    return this.paperTrader;
+  }
+
   public getSessionTokens(): { cst?: string; securityToken?: string } {
     return {
       cst: this.cst,
@@ -119,47 +304,46 @@ export class CapitalAPI {
     };
   }
 
-  // Encryption utility for password encryption
-  private encryptPassword(encryptionKey: string, timestamp: number, password: string): string {
-    const input = password + '|' + timestamp;
-    const inputBase64 = crypto.enc.Base64.stringify(crypto.enc.Utf8.parse(input));
-    
-    // Note: This is a simplified version. In a real implementation,
-    // you would need to properly implement RSA encryption with the public key
-    // For now, returning the base64 encoded input as placeholder
-    return inputBase64;
+  // The axios instance behind every request; its adapter also serves session creation
+  public getHttpClient(): AxiosInstance {
+    return this.client;
   }
 
   // Basic HTTP methods
-  private async get<T>(endpoint: string, params?: any): Promise<T> {
+  private async request<T>(config: RequestConfig): Promise<T> {
+    if (this.retryPolicy) {
+      return this.retryPolicy.execute(config.method, config.url, () => this.send<T>(config));
+    }
+    return this.send<T>(config);
+  }
+
+  private async send<T>(config: RequestConfig): Promise<T> {
     try {
-      const response: AxiosResponse<T> = await this.client.get(endpoint, { params });
+      const response: AxiosResponse<T> = await this.client.request(config);
       // Jest may strip response properties, but response.data should be available
       if (response && response.data !== undefined) {
         return response.data;
       }
       throw new Error('No response data received');
-    } catch (error: any) {
-      if (error.response?.status === 401) {
-        throw new Error('Authentication failed - check your credentials and API key');
-      }
-      throw error;
+    } catch (error) {
+      throw toCapitalApiError(error, config.method, config.url);
     }
   }
 
+  private async get<T>(endpoint: string, params?: any): Promise<T> {
+    return this.request<T>({ method: 'GET', url: endpoint, params });
+  }
+
   private async post<T>(endpoint: string, data?: any, headers?: any): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.post(endpoint, data, { headers });
-    return response.data;
+    return this.request<T>({ method: 'POST', url: endpoint, data, headers });
   }
 
   private async put<T>(endpoint: string, data?: any): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.put(endpoint, data);
-    return response.data;
+    return this.request<T>({ method: 'PUT', url: endpoint, data });
   }
 
   private async delete<T>(endpoint: string): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.delete(endpoint);
-    return response.data;
+    return this.request<T>({ method: 'DELETE', url: endpoint });
   }
 
   // General endpoints
@@ -177,7 +361,7 @@ export class CapitalAPI {
       throw new Error('API key is required to get encryption key');
     }
     
-    return this.get<EncryptionKeyResponse>('/api/v1/session/encryptionKey');
+    return this.request<EncryptionKeyResponse>({ method: 'GET', url: '/api/v1/session/encryptionKey', _sessionLogin: true });
   }
 
   async createSession(credentials: SessionCredentials): Promise<SessionResponse> {
@@ -186,10 +370,14 @@ export class CapitalAPI {
     }
 
     try {
+      await this.rateLimiter?.acquire('session');
+
       // Create a temporary axios instance to avoid interceptor issues
       const tempClient = axios.create({
         baseURL: this.baseUrl,
         timeout: 30000,
+        // Shares a replaced adapter, e.g. a cassette recorder's
+        adapter: this.client.defaults.adapter,
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'application/json'
@@ -213,22 +401,19 @@ export class CapitalAPI {
 
         if (cst && securityToken) {
           this.setSessionTokens(cst, securityToken);
+          this.sessionManager.start(this.renewingSession);
         }
       }
 
       if (response && response.data) {
+        this.timezoneOffset = response.data.timezoneOffset;
+        this.rememberSessionLogin(() => this.createSession(credentials));
         return response.data;
       }
 
       throw new Error('Invalid response received');
-    } catch (error: any) {
-      // More specific error handling
-      if (error.response) {
-        const status = error.response.status || 'unknown';
-        const message = error.response.data?.errorCode || error.response.data?.message || 'Unknown error';
-        throw new Error(`API Error (${status}): ${message}`);
-      }
-      throw error;
+    } catch (error) {
+      throw toCapitalApiError(error, 'POST', '/api/v1/session');
     }
   }
 
@@ -239,19 +424,23 @@ export class CapitalAPI {
     // Get encryption key first
     const encryptionData = await this.getEncryptionKey();
     
-    // Encrypt password
-    const encryptedPassword = this.encryptPassword(
+    // Encrypt password with the server's RSA public key
+    const encryptedPassword = encryptPassword(
       encryptionData.encryptionKey,
       encryptionData.timeStamp,
       password
     );
 
     // Create session with encrypted password
-    return this.createSession({
+    const session = await this.createSession({
       identifier,
       password: encryptedPassword,
       encryptedPassword: true
     });
+
+    // The encrypted password is bound to its timestamp, so renewals must encrypt again
+    this.rememberSessionLogin(() => this.createSessionWithEncryption(identifier, password));
+    return session;
   }
 
   async getSessionDetails(): Promise<SessionDetails> {
@@ -265,6 +454,8 @@ export class CapitalAPI {
   async logout(): Promise<SuccessResponse> {
     const response = await this.delete<SuccessResponse>('/api/v1/session');
     this.clearSession();
+    this.sessionLogin = undefined;
+    this.sessionManager.stop();
     return response;
   }
 
@@ -289,6 +480,9 @@ export class CapitalAPI {
     dealId?: string;
     filter?: string;
   }): Promise<ActivityHistoryResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.getActivityHistory(params);
+    }
     return this.get<ActivityHistoryResponse>('/api/v1/history/activity', params);
   }
 
@@ -298,6 +492,9 @@ export class CapitalAPI {
     lastPeriod?: number;
     type?: string;
   }): Promise<TransactionHistoryResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.getTransactionHistory(params);
+    }
     return this.get<TransactionHistoryResponse>('/api/v1/history/transactions', params);
   }
 
@@ -307,47 +504,190 @@ export class CapitalAPI {
 
   // Trading Methods
   async getDealConfirmation(dealReference: string): Promise<DealConfirmation> {
+    if (this.paperTrader) {
+      return this.paperTrader.getDealConfirmation(dealReference);
+    }
     return this.get<DealConfirmation>(`/api/v1/confirms/${dealReference}`);
   }
 
+  /**
+   * Poll `/api/v1/confirms/{dealReference}` until the confirmation is available.
+   * Rejects with `DealRejectedError` when the deal was rejected.
+   */
+  async waitForDealConfirmation(
+    dealReference: string,
+    options: DealConfirmationOptions = {}
+  ): Promise<DealConfirmation> {
+    const timeout = options.timeout ?? 10000;
+    const maxDelay = options.maxDelay ?? 1000;
+    const deadline = Date.now() + timeout;
+    let delay = options.initialDelay ?? 100;
+
+    for (;;) {
+      try {
+        const confirmation = await this.getDealConfirmation(dealReference);
+        if (confirmation.dealStatus === 'REJECTED') {
+          throw new DealRejectedError(confirmation, {
+            endpoint: `/api/v1/confirms/${dealReference}`,
+            method: 'GET'
+          });
+        }
+        return confirmation;
+      } catch (error) {
+        // 404 means the deal has not been processed yet
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new DealConfirmationTimeoutError(dealReference, timeout, {
+          endpoint: `/api/v1/confirms/${dealReference}`,
+          method: 'GET'
+        });
+      }
+      await sleep(Math.min(delay, remaining));
+      delay = Math.min(delay * 2, maxDelay);
+    }
+  }
+
+  // Pre-trade validation against the market's dealing rules (market details are cached per epic)
+  async validatePosition(request: CreatePositionRequest): Promise<DealValidationResult> {
+    return this.dealValidator.validate(request);
+  }
+
+  async validateWorkingOrder(request: CreateWorkingOrderRequest): Promise<DealValidationResult> {
+    return this.dealValidator.validate(request);
+  }
+
+  private async ensureValidDeal(
+    request: CreatePositionRequest | CreateWorkingOrderRequest,
+    endpoint: string
+  ): Promise<void> {
+    if (!this.preTradeValidation) {
+      return;
+    }
+
+    const result = await this.dealValidator.validate(request);
+    if (!result.valid) {
+      throw new DealValidationError(result.violations, { endpoint, method: 'POST' });
+    }
+  }
+
+  private async confirmDeal(
+    deal: Promise<CreatePositionResponse>,
+    options?: DealConfirmationOptions
+  ): Promise<DealConfirmation> {
+    const { dealReference } = await deal;
+    return this.waitForDealConfirmation(dealReference, options);
+  }
+
   // Position Methods
   async getAllPositions(): Promise<PositionsResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.getAllPositions();
+    }
     return this.get<PositionsResponse>('/api/v1/positions');
   }
 
   async createPosition(request: CreatePositionRequest): Promise<CreatePositionResponse> {
+    await this.ensureValidDeal(request, '/api/v1/positions');
+    if (this.paperTrader) {
+      return this.paperTrader.createPosition(request);
+    }
     return this.post<CreatePositionResponse>('/api/v1/positions', request);
   }
 
   async getPosition(dealId: string): Promise<PositionResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.getPosition(dealId);
+    }
     return this.get<PositionResponse>(`/api/v1/positions/${dealId}`);
   }
 
   async updatePosition(dealId: string, request: UpdatePositionRequest): Promise<CreatePositionResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.updatePosition(dealId, request);
+    }
     return this.put<CreatePositionResponse>(`/api/v1/positions/${dealId}`, request);
   }
 
   async closePosition(dealId: string): Promise<CreatePositionResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.closePosition(dealId);
+    }
     return this.delete<CreatePositionResponse>(`/api/v1/positions/${dealId}`);
   }
 
+  async createPositionAndConfirm(
+    request: CreatePositionRequest,
+    options?: DealConfirmationOptions
+  ): Promise<DealConfirmation> {
+    return this.confirmDeal(this.createPosition(request), options);
+  }
+
+  async updatePositionAndConfirm(
+    dealId: string,
+    request: UpdatePositionRequest,
+    options?: DealConfirmationOptions
+  ): Promise<DealConfirmation> {
+    return this.confirmDeal(this.updatePosition(dealId, request), options);
+  }
+
+  async closePositionAndConfirm(dealId: string, options?: DealConfirmationOptions): Promise<DealConfirmation> {
+    return this.confirmDeal(this.closePosition(dealId), options);
+  }
+
   // Working Order Methods
   async getAllWorkingOrders(): Promise<WorkingOrdersResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.getAllWorkingOrders();
+    }
     return this.get<WorkingOrdersResponse>('/api/v1/workingorders');
   }
 
   async createWorkingOrder(request: CreateWorkingOrderRequest): Promise<CreatePositionResponse> {
+    await this.ensureValidDeal(request, '/api/v1/workingorders');
+    if (this.paperTrader) {
+      return this.paperTrader.createWorkingOrder(request);
+    }
     return this.post<CreatePositionResponse>('/api/v1/workingorders', request);
   }
 
   async updateWorkingOrder(dealId: string, request: UpdateWorkingOrderRequest): Promise<CreatePositionResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.updateWorkingOrder(dealId, request);
+    }
     return this.put<CreatePositionResponse>(`/api/v1/workingorders/${dealId}`, request);
   }
 
   async deleteWorkingOrder(dealId: string): Promise<CreatePositionResponse> {
+    if (this.paperTrader) {
+      return this.paperTrader.deleteWorkingOrder(dealId);
+    }
     return this.delete<CreatePositionResponse>(`/api/v1/workingorders/${dealId}`);
   }
 
+  async createWorkingOrderAndConfirm(
+    request: CreateWorkingOrderRequest,
+    options?: DealConfirmationOptions
+  ): Promise<DealConfirmation> {
+    return this.confirmDeal(this.createWorkingOrder(request), options);
+  }
+
+  async updateWorkingOrderAndConfirm(
+    dealId: string,
+    request: UpdateWorkingOrderRequest,
+    options?: DealConfirmationOptions
+  ): Promise<DealConfirmation> {
+    return this.confirmDeal(this.updateWorkingOrder(dealId, request), options);
+  }
+
+  async deleteWorkingOrderAndConfirm(dealId: string, options?: DealConfirmationOptions): Promise<DealConfirmation> {
+    return this.confirmDeal(this.deleteWorkingOrder(dealId), options);
+  }
+
   // Market Data Methods
   async getMarketNavigation(): Promise<NavigationResponse> {
     return this.get<NavigationResponse>('/api/v1/marketnavigation');
@@ -378,6 +718,28 @@ export class CapitalAPI {
     return this.get<HistoricalPricesResponse>(`/api/v1/prices/${epic}`, params);
   }
 
+  async getCandles(epic: string, params: {
+    resolution: Resolution;
+    max?: number;
+    from?: string;
+    to?: string;
+    side?: PriceSide;
+  }): Promise<Candle[]> {
+    const { side, ...query } = params;
+    const response = await this.getHistoricalPrices(epic, query);
+    return historicalPricesToCandles(response, { epic, resolution: params.resolution, side });
+  }
+
+  // Call `start(ws)` on the series to backfill and follow the OHLC stream
+  createCandleSeries(config: CandleSeriesConfig): CandleSeries {
+    return new CandleSeries((epic, params) => this.getCandles(epic, params), config);
+  }
+
+  // Walks the range in windows of up to 1000 bars; every request goes through the rate limiter
+  iterateHistoricalPrices(epic: string, options: HistoricalPricesRangeOptions): AsyncGenerator<PriceSnapshot> {
+    return iterateHistoricalPrices((params) => this.getHistoricalPrices(epic, params), options);
+  }
+
   async getClientSentiment(marketIds?: string): Promise<ClientSentimentsResponse> {
     const params = marketIds ? { marketIds } : undefined;
     return this.get<ClientSentimentsResponse>('/api/v1/clientsentiment', params);
@@ -387,6 +749,27 @@ export class CapitalAPI {
     return this.get<ClientSentiment>(`/api/v1/clientsentiment/${marketId}`);
   }
 
+  // Market Hours Methods
+  async getMarketHours(epic: string): Promise<MarketHours | null> {
+    return this.marketCalendar.getMarketHours(epic);
+  }
+
+  async isMarketOpen(epic: string, at?: Date): Promise<boolean> {
+    return this.marketCalendar.isMarketOpen(epic, at);
+  }
+
+  async getNextMarketOpen(epic: string, at?: Date): Promise<Date | undefined> {
+    return this.marketCalendar.nextOpen(epic, at);
+  }
+
+  async getNextMarketClose(epic: string, at?: Date): Promise<Date | undefined> {
+    return this.marketCalendar.nextClose(epic, at);
+  }
+
+  async getMarketSchedule(epic: string): Promise<WeeklySchedule | undefined> {
+    return this.marketCalendar.getWeeklySchedule(epic);
+  }
+
   // Watchlist Methods
   async getAllWatchlists(): Promise<WatchlistsResponse> {
     return this.get<WatchlistsResponse>('/api/v1/watchlists');
@@ -419,12 +802,18 @@ export class CapitalAPI {
     }
 
     const wsConfig: CapitalWebSocketConfig = {
+      ...config,
       cst: this.cst,
-      securityToken: this.securityToken,
-      streamingUrl: config?.streamingUrl
+      securityToken: this.securityToken
     };
+    // Stale quotes only matter while the market is open
+    if (config?.heartbeat) {
+      const heartbeat = typeof config.heartbeat === 'object' ? config.heartbeat : {};
+      wsConfig.heartbeat = { isMarketOpen: epic => this.isMarketOpen(epic), ...heartbeat };
+    }
 
     this.webSocket = new CapitalWebSocket(wsConfig);
+    this.paperTrader?.attach(this.webSocket);
     return this.webSocket;
   }
 
@@ -438,7 +827,10 @@ export class CapitalAPI {
     }
     
     if (this.webSocket) {
-      await this.webSocket.connect();
+      if (!this.webSocket.isConnectedToServer()) {
+        await this.webSocket.connect();
+      }
+      // Replaces the auto-ping of an earlier call rather than adding another one
       this.webSocket.startAutoPing();
       return this.webSocket;
     }
@@ -450,6 +842,7 @@ export class CapitalAPI {
     if (this.webSocket) {
       this.webSocket.disconnect();
       this.webSocket = undefined;
+      this.paperTrader?.attach(undefined);
     }
   }
 }
\ No newline at end of file
@@ -1,18 +1,134 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { EventStream } from './EventStream';
+import { ohlcToCandle } from './candles';
 import {
+  Candle,
+  ConnectionState,
+  HeartbeatConfig,
+  LatencyStats,
+  ReconnectConfig,
+  StaleEvent,
   WebSocketMessage,
+  WebSocketResponse,
   MarketDataSubscription,
   OHLCSubscription,
   QuoteData,
   OHLCData,
-  Resolution
+  Resolution,
+  SubscriptionHandle,
+  SubscriptionResult
 } from './types';
+import { SubscriptionError, SubscriptionLimitError } from './errors';
+import { MAX_STREAMING_INSTRUMENTS, OHLCType, SubscriptionTracker } from './SubscriptionTracker';
+import { StreamWatchdog } from './StreamWatchdog';
 
 export interface CapitalWebSocketConfig {
   cst: string;
   securityToken: string;
   streamingUrl?: string;
+  // How long to wait for the server to acknowledge a subscription change, in milliseconds (default: 10000)
+  subscriptionTimeout?: number;
+  // Instruments this connection may subscribe to (default: 40, the server limit)
+  maxInstruments?: number;
+  // Subscribe instruments beyond `maxInstruments` on an additional connection instead of failing
+  spillover?: boolean;
+  // Reconnect with exponential backoff when an open connection drops (default: true)
+  reconnect?: boolean | ReconnectConfig;
+  // How long to wait for the connection to open, in milliseconds (default: 10000)
+  connectTimeout?: number;
+  // Watch pongs and per-epic quotes to detect a stream that stopped without closing
+  heartbeat?: boolean | HeartbeatConfig;
+  // Open sockets through this factory instead of `ws`, e.g. to record or replay traffic
+  createSocket?: (url: string, options: WebSocket.ClientOptions) => WebSocket;
+}
+
+// Ping round-trips kept for `getLatencyStats()`
+const MAX_LATENCY_SAMPLES = 100;
+
+export const DEFAULT_RECONNECT_CONFIG: Required<ReconnectConfig> = {
+  maxAttempts: 10,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: true
+};
+
+export interface CapitalWebSocketEvents {
+  quote: (quote: QuoteData) => void;
+  ohlc: (data: OHLCData) => void;
+  pong: (message: WebSocketResponse) => void;
+  subscription: (message: WebSocketResponse) => void;
+  message: (message: WebSocketResponse) => void;
+  error: (error: Error) => void;
+  connect: () => void;
+  disconnect: () => void;
+  state: (state: ConnectionState, previous: ConnectionState) => void;
+  reconnecting: (attempt: number, delay: number) => void;
+  // Emitted once every tracked subscription has been acknowledged again
+  reconnected: (resubscriptions: SubscriptionResult[]) => void;
+  stale: (event: StaleEvent) => void;
+}
+
+// Events outside the typed map keep the plain EventEmitter signature
+type UntypedEvent<E> = E extends keyof CapitalWebSocketEvents ? never : E;
+
+export interface CapitalWebSocket {
+  on<E extends keyof CapitalWebSocketEvents>(event: E, listener: CapitalWebSocketEvents[E]): this;
+  on<E extends string | symbol>(event: UntypedEvent<E>, listener: (...args: any[]) => void): this;
+  once<E extends keyof CapitalWebSocketEvents>(event: E, listener: CapitalWebSocketEvents[E]): this;
+  once<E extends string | symbol>(event: UntypedEvent<E>, listener: (...args: any[]) => void): this;
+  off<E extends keyof CapitalWebSocketEvents>(event: E, listener: CapitalWebSocketEvents[E]): this;
+  off<E extends string | symbol>(event: UntypedEvent<E>, listener: (...args: any[]) => void): this;
+  emit<E extends keyof CapitalWebSocketEvents>(event: E, ...args: Parameters<CapitalWebSocketEvents[E]>): boolean;
+  emit<E extends string | symbol>(event: UntypedEvent<E>, ...args: any[]): boolean;
+}
+
+interface PendingRequest {
+  destination: string;
+  resolve: (result: SubscriptionResult) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Requested epics split into those handled here and those beyond the instrument limit
+interface Allocation {
+  local: string[];
+  overflow: string[];
+}
+
+function toSubscriptionResult(destination: string, correlationId: string, subscriptions: Record<string, string>): SubscriptionResult {
+  const epics = Object.keys(subscriptions);
+  return {
+    destination,
+    correlationId,
+    subscriptions,
+    succeeded: epics.filter(epic => subscriptions[epic] === 'PROCESSED'),
+    failed: epics
+      .filter(epic => subscriptions[epic] !== 'PROCESSED')
+      .map(epic => ({ epic, status: subscriptions[epic] }))
+  };
+}
+
+// Combine several acknowledgements; `alreadyActive` epics needed no request and count as processed
+function mergeSubscriptionResults(destination: string, results: SubscriptionResult[], alreadyActive: string[] = []): SubscriptionResult {
+  const subscriptions: Record<string, string> = {};
+  alreadyActive.forEach(epic => {
+    subscriptions[epic] = 'PROCESSED';
+  });
+  results.forEach(result => {
+    Object.keys(result.subscriptions).forEach(epic => {
+      // A failure for any resolution marks the epic as failed
+      if (subscriptions[epic] === undefined || subscriptions[epic] === 'PROCESSED') {
+        subscriptions[epic] = result.subscriptions[epic];
+      }
+    });
+  });
+
+  return toSubscriptionResult(
+    destination,
+    results.map(result => result.correlationId).filter(id => id).join(','),
+    subscriptions
+  );
 }
 
 export class CapitalWebSocket extends EventEmitter {
@@ -21,17 +137,51 @@ export class CapitalWebSocket extends EventEmitter {
   private securityToken: string;
   private streamingUrl: string;
   private correlationIdCounter = 0;
-  private reconnectInterval = 5000;
-  private maxReconnectAttempts = 5;
+  private state: ConnectionState = 'closed';
+  private reconnectConfig?: Required<ReconnectConfig>;
   private reconnectAttempts = 0;
-  private isConnected = false;
-  private subscriptions = new Map<string, any>();
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private connectTimeout: number;
+  private watchdog?: StreamWatchdog;
+  private autoPingTimer?: ReturnType<typeof setInterval>;
+  // Interval of the running auto-ping, applied to a spill-over connection opened later
+  private autoPingInterval?: number;
+  // Send time of pings awaiting their pong, by correlationId
+  private pendingPings = new Map<string, number>();
+  private latencies: number[] = [];
+  private config: CapitalWebSocketConfig;
+  private tracker = new SubscriptionTracker();
+  private maxInstruments: number;
+  private spillover?: { connection: CapitalWebSocket; connected: Promise<CapitalWebSocket> };
+  private subscriptionTimeout: number;
+  private pendingRequests = new Map<string, PendingRequest>();
+  // Per-epic routing for `quotes()` and `candles()`
+  private quoteStreams = new Map<string, Set<EventStream<QuoteData>>>();
+  private candleStreams = new Map<string, Set<{ stream: EventStream<Candle>; side?: 'bid' | 'ask' }>>();
 
   constructor(config: CapitalWebSocketConfig) {
     super();
     this.cst = config.cst;
     this.securityToken = config.securityToken;
     this.streamingUrl = config.streamingUrl || 'wss://api-streaming-capital.backend-capital.com/connect';
+    this.subscriptionTimeout = config.subscriptionTimeout ?? 10000;
+    this.maxInstruments = config.maxInstruments ?? MAX_STREAMING_INSTRUMENTS;
+    this.connectTimeout = config.connectTimeout ?? 10000;
+    if (config.reconnect !== false) {
+      this.reconnectConfig = {
+        ...DEFAULT_RECONNECT_CONFIG,
+        ...(typeof config.reconnect === 'object' ? config.reconnect : {})
+      };
+    }
+    if (config.heartbeat) {
+      this.watchdog = new StreamWatchdog(typeof config.heartbeat === 'object' ? config.heartbeat : {}, {
+        ping: () => this.ping(),
+        getEpics: () => this.tracker.getMarketDataEpics(),
+        onStale: event => this.emit('stale', event),
+        reconnect: () => this.forceReconnect()
+      });
+    }
+    this.config = config;
   }
 
   private getNextCorrelationId(): string {
@@ -56,6 +206,71 @@ export class CapitalWebSocket extends EventEmitter {
     }
   }
 
+  // Send a message and wait for the response carrying the same correlationId
+  private request(message: WebSocketMessage): Promise<SubscriptionResult> {
+    try {
+      this.send(message);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    return new Promise<SubscriptionResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(message.correlationId);
+        reject(new SubscriptionError(
+          `No response to ${message.destination} within ${this.subscriptionTimeout}ms`,
+          message.destination,
+          message.correlationId
+        ));
+      }, this.subscriptionTimeout);
+      this.pendingRequests.set(message.correlationId, { destination: message.destination, resolve, reject, timer });
+    });
+  }
+
+  // Send one request per payload and merge the acknowledgements
+  private requestAll(destination: string, payloads: any[], alreadyActive: string[]): Promise<SubscriptionResult> {
+    const requests = payloads.map(payload => this.request(this.createMessage(destination, payload)));
+    return Promise.all(requests).then(results => mergeSubscriptionResults(destination, results, alreadyActive));
+  }
+
+  // Callers that do not wait for the acknowledgement must not see unhandled rejections
+  private handled<T>(promise: Promise<T>): Promise<T> {
+    promise.catch(() => undefined);
+    return promise;
+  }
+
+  private settleRequest(message: any): void {
+    const correlationId = String(message.correlationId);
+    const pending = this.pendingRequests.get(correlationId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingRequests.delete(correlationId);
+    clearTimeout(pending.timer);
+
+    if (message.status !== 'OK') {
+      const errorCode = message.payload?.errorCode;
+      pending.reject(new SubscriptionError(
+        `Subscription Error: ${errorCode || message.status}`,
+        pending.destination,
+        correlationId,
+        { errorCode, responseData: message }
+      ));
+      return;
+    }
+
+    pending.resolve(toSubscriptionResult(pending.destination, correlationId, message.payload?.subscriptions || {}));
+  }
+
+  private rejectPendingRequests(reason: string): void {
+    this.pendingRequests.forEach((pending, correlationId) => {
+      clearTimeout(pending.timer);
+      pending.reject(new SubscriptionError(`${reason} before ${pending.destination} was acknowledged`, pending.destination, correlationId));
+    });
+    this.pendingRequests.clear();
+  }
+
   private onMessage(data: WebSocket.Data): void {
     try {
       const message = JSON.parse(data.toString());
@@ -63,18 +278,23 @@ export class CapitalWebSocket extends EventEmitter {
       // Emit specific events based on destination
       switch (message.destination) {
         case 'quote':
+          this.watchdog?.recordQuote(message.payload?.epic);
           this.emit('quote', message.payload as QuoteData);
+          this.routeQuote(message.payload as QuoteData);
           break;
         case 'ohlc.event':
           this.emit('ohlc', message.payload as OHLCData);
+          this.routeOHLC(message.payload as OHLCData);
           break;
         case 'ping':
+          this.recordPong(message.correlationId === undefined ? undefined : String(message.correlationId));
           this.emit('pong', message);
           break;
         case 'marketData.subscribe':
         case 'marketData.unsubscribe':
         case 'OHLCMarketData.subscribe':
         case 'OHLCMarketData.unsubscribe':
+          this.settleRequest(message);
           this.emit('subscription', message);
           break;
         default:
@@ -85,37 +305,157 @@ export class CapitalWebSocket extends EventEmitter {
     }
   }
 
+  private routeQuote(quote: QuoteData): void {
+    this.quoteStreams.get(quote.epic)?.forEach(stream => stream.push(quote));
+  }
+
+  private routeOHLC(data: OHLCData): void {
+    const routes = this.candleStreams.get(`${data.epic}:${data.resolution}`);
+    if (!routes || (data.type && data.type !== 'classic')) {
+      return;
+    }
+
+    const candle = ohlcToCandle(data);
+    routes.forEach(route => {
+      if (!route.side || route.side === candle.side) {
+        route.stream.push(candle);
+      }
+    });
+  }
+
+  private addRoute<T>(routes: Map<string, Set<T>>, key: string, route: T): () => void {
+    const set = routes.get(key) || new Set<T>();
+    set.add(route);
+    routes.set(key, set);
+
+    return () => {
+      set.delete(route);
+      if (set.size === 0 && routes.get(key) === set) {
+        routes.delete(key);
+      }
+    };
+  }
+
   private onError(error: Error): void {
     this.emit('error', error);
   }
 
+  private setState(state: ConnectionState): void {
+    const previous = this.state;
+    if (state !== previous) {
+      this.state = state;
+      this.emit('state', state, previous);
+    }
+  }
+
   private onClose(): void {
-    this.isConnected = false;
-    this.emit('disconnect');
-    
-    // Attempt to reconnect
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      setTimeout(() => {
-        this.connect();
-      }, this.reconnectInterval);
-    } else {
+    const wasOpen = this.state === 'open';
+    this.watchdog?.stop();
+    this.pendingPings.clear();
+    this.rejectPendingRequests('WebSocket closed');
+    if (wasOpen) {
+      this.emit('disconnect');
+    }
+
+    // A connection that never opened is reported through the rejected connect() instead
+    if (!this.reconnectConfig || this.state === 'connecting') {
+      this.setState('closed');
+      this.clearAutoPing();
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  // Exponential backoff with full jitter
+  private getReconnectDelay(attempt: number): number {
+    const { baseDelay, maxDelay, jitter } = this.reconnectConfig!;
+    const backoff = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+    return jitter ? Math.round(Math.random() * backoff) : backoff;
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.reconnectConfig!.maxAttempts) {
+      this.setState('closed');
+      this.clearAutoPing();
       this.emit('error', new Error('Max reconnection attempts reached'));
+      return;
     }
+
+    const attempt = ++this.reconnectAttempts;
+    const delay = this.getReconnectDelay(attempt);
+    this.setState('reconnecting');
+    this.emit('reconnecting', attempt, delay);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      // A failed attempt closes the socket, which schedules the next one
+      this.open().catch(() => undefined);
+    }, delay);
   }
 
   private onOpen(): void {
-    this.isConnected = true;
-    this.reconnectAttempts = 0;
+    const reconnecting = this.state === 'reconnecting';
+    this.setState('open');
+    this.watchdog?.start();
     this.emit('connect');
-    
-    // Resubscribe to all previous subscriptions
-    this.subscriptions.forEach((subscription, key) => {
-      this.send(subscription);
+
+    const socket = this.ws;
+    const resubscribing = this.resubscribe();
+    if (!reconnecting) {
+      this.reconnectAttempts = 0;
+      resubscribing.catch(() => undefined);
+      return;
+    }
+
+    // The reconnect only counts as successful once the server confirmed every subscription
+    resubscribing.then(resubscriptions => {
+      if (this.ws === socket && this.state === 'open') {
+        this.reconnectAttempts = 0;
+        this.emit('reconnected', resubscriptions);
+      }
+    }, error => {
+      if (this.ws === socket && this.state === 'open') {
+        this.emit('error', error);
+        socket?.close();
+      }
+    });
+  }
+
+  // Subscribe to everything that is still tracked
+  private resubscribe(): Promise<SubscriptionResult[]> {
+    const requests: Promise<SubscriptionResult>[] = [];
+
+    const epics = this.tracker.getMarketDataEpics();
+    if (epics.length > 0) {
+      requests.push(this.request(this.createMessage('marketData.subscribe', { epics })));
+    }
+    this.tracker.getOHLCGroups().forEach(group => {
+      requests.push(this.request(this.createMessage('OHLCMarketData.subscribe', {
+        epics: group.epics,
+        resolutions: [group.resolution],
+        type: group.type
+      })));
     });
+
+    return Promise.all(requests);
   }
 
   connect(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.ws) {
+      const socket = this.ws;
+      this.ws = undefined;
+      socket.close();
+      this.rejectPendingRequests('WebSocket closed');
+    }
+    this.reconnectAttempts = 0;
+    this.setState('connecting');
+    return this.open();
+  }
+
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         
@@ -133,85 +473,115 @@ export class CapitalWebSocket extends EventEmitter {
           }
         };
         
-        this.ws = new WebSocket(this.streamingUrl, options);
-        
-        // Set up event handlers immediately
-        this.ws.on('open', () => {
+        const socket = this.config.createSocket
+          ? this.config.createSocket(this.streamingUrl, options)
+          : new WebSocket(this.streamingUrl, options);
+        this.ws = socket;
+        let settled = false;
+
+        const opened = () => {
+          if (settled || this.ws !== socket) {
+            return;
+          }
+          settled = true;
+          clearTimeout(timeout);
           this.onOpen();
           resolve();
-        });
+        };
+
+        const failed = (error: Error) => {
+          if (!settled) {
+            settled = true;
+            clearTimeout(timeout);
+            reject(error);
+          }
+        };
+        
+        // Set up event handlers immediately; events of replaced sockets are ignored
+        socket.on('open', opened);
         
-        this.ws.on('message', (data) => {
-          this.onMessage(data);
+        socket.on('message', (data) => {
+          if (this.ws === socket) {
+            this.onMessage(data);
+          }
         });
         
-        this.ws.on('error', (error) => {
-          console.error('❌ WebSocket error:', error);
-          this.onError(error);
-          reject(error);
+        socket.on('error', (error) => {
+          if (this.ws === socket) {
+            this.onError(error);
+          }
+          failed(error);
         });
         
-        this.ws.on('close', (code, reason) => {
-          this.onClose();
+        socket.on('close', () => {
+          failed(new Error('WebSocket closed before the connection was established'));
+          if (this.ws === socket) {
+            this.onClose();
+          }
         });
         
-        this.ws.on('unexpected-response', (request, response) => {
-          reject(new Error(`WebSocket unexpected response: ${response.statusCode} ${response.statusMessage}`));
+        socket.on('unexpected-response', (request, response) => {
+          failed(new Error(`WebSocket unexpected response: ${response.statusCode} ${response.statusMessage}`));
+          socket.terminate();
         });
+
+        const timeout = setTimeout(() => {
+          failed(new Error(`WebSocket connection timed out after ${this.connectTimeout}ms`));
+          socket.terminate();
+        }, this.connectTimeout);
         
         // Check if already open (happens with some WebSocket implementations)
-        if (this.ws.readyState === 1) { // Use literal 1 instead of WebSocket.OPEN
-          setTimeout(() => {
-            this.onOpen();
-            resolve();
-          }, 0);
-          return;
+        if (socket.readyState === 1) { // Use literal 1 instead of WebSocket.OPEN
+          setTimeout(opened, 0);
         }
         
-        // Add connection timeout debugging and polling
-        let pollCount = 0;
-        const pollInterval = setInterval(() => {
-          pollCount++;
-          
-          if (this.ws && this.ws.readyState === 1) { // Use literal 1 instead of constant
-            clearInterval(pollInterval);
-            this.onOpen();
-            resolve();
-          } else if (pollCount >= 20) { // 10 seconds
-            clearInterval(pollInterval);
-          }
-        }, 500);
-        
-        // Also keep the timeout as backup
-        setTimeout(() => {
-          clearInterval(pollInterval);
-          if (this.ws && this.ws.readyState === 0) { // CONNECTING = 0
-          } else if (this.ws) {
-            if (this.ws.readyState === 1) { // OPEN = 1
-              this.onOpen();
-              resolve();
-            }
-          }
-        }, 10000);
-        
       } catch (error) {
         console.error('💥 WebSocket connection setup error:', error);
+        if (this.state === 'connecting') {
+          this.setState('closed');
+        }
         reject(error);
       }
     });
   }
 
+  // Closes the connection for good: no reconnect follows
   disconnect(): void {
+    const wasOpen = this.state === 'open';
+    this.setState('closed');
+    this.watchdog?.stop();
+    this.clearAutoPing();
+    this.pendingPings.clear();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
     if (this.ws) {
-      this.ws.close();
+      // Detach first so the close event of this socket is ignored
+      const socket = this.ws;
       this.ws = undefined;
+      socket.close();
+    }
+    if (wasOpen) {
+      this.emit('disconnect');
+    }
+    this.tracker.clear();
+    this.rejectPendingRequests('WebSocket disconnected');
+    this.quoteStreams.forEach(streams => streams.forEach(stream => stream.close()));
+    this.candleStreams.forEach(routes => routes.forEach(route => route.stream.close()));
+
+    if (this.spillover) {
+      this.spillover.connection.disconnect();
+      this.spillover = undefined;
     }
-    this.isConnected = false;
-    this.subscriptions.clear();
   }
 
   isConnectedToServer(): boolean {
-    return this.isConnected && this.ws?.readyState === 1; // Use literal 1 instead of WebSocket.OPEN
+    return this.state === 'open' && this.ws?.readyState === 1; // Use literal 1 instead of WebSocket.OPEN
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.state;
   }
 
   // Debug methods
@@ -223,76 +593,320 @@ export class CapitalWebSocket extends EventEmitter {
     return this.ws?.url;
   }
 
+  // Instruments subscribed on this connection (spilled-over ones are tracked by `getSpilloverConnection()`)
+  getSubscribedInstruments(): string[] {
+    return this.tracker.getInstruments();
+  }
+
+  // Whether quotes for the epic are subscribed, here or on the spill-over connection; OHLC subscriptions do not count
+  hasMarketDataSubscription(epic: string): boolean {
+    return this.tracker.hasMarketData(epic) || !!this.spillover?.connection.hasMarketDataSubscription(epic);
+  }
+
+  getSpilloverConnection(): CapitalWebSocket | undefined {
+    return this.spillover?.connection;
+  }
+
+  // Throws SubscriptionLimitError when epics exceed the limit and spill-over is off
+  private allocate(epics: string[]): Allocation {
+    const unique = Array.from(new Set(epics));
+    const fresh = unique.filter(epic => !this.tracker.isTracked(epic));
+    const capacity = Math.max(0, this.maxInstruments - this.tracker.getInstruments().length);
+    const overflow = fresh.slice(capacity);
+
+    if (overflow.length > 0 && !this.config.spillover) {
+      throw new SubscriptionLimitError(overflow, this.maxInstruments);
+    }
+    return { local: unique.filter(epic => !overflow.includes(epic)), overflow };
+  }
+
+  private getSpillover(): Promise<CapitalWebSocket> {
+    if (!this.spillover) {
+      const connection = new CapitalWebSocket({ ...this.config, cst: this.cst, securityToken: this.securityToken });
+      connection.on('quote', quote => {
+        this.emit('quote', quote);
+        this.routeQuote(quote);
+      });
+      connection.on('ohlc', data => {
+        this.emit('ohlc', data);
+        this.routeOHLC(data);
+      });
+      connection.on('error', error => this.emit('error', error));
+      connection.on('stale', event => this.emit('stale', event));
+      // The server drops idle connections, so the spill-over needs the same keep-alive
+      if (this.autoPingInterval !== undefined) {
+        connection.startAutoPing(this.autoPingInterval);
+      }
+
+      const spillover = {
+        connection,
+        connected: connection.connect().then(() => connection, error => {
+          if (this.spillover === spillover) {
+            this.spillover = undefined;
+          }
+          throw error;
+        })
+      };
+      this.spillover = spillover;
+    }
+    return this.spillover.connected;
+  }
+
+  private withSpillover(
+    local: Promise<SubscriptionHandle>,
+    subscribe: (connection: CapitalWebSocket) => Promise<SubscriptionHandle>
+  ): Promise<SubscriptionHandle> {
+    const remote = this.getSpillover().then(subscribe);
+    return Promise.all([local, remote]).then(([here, there]) => ({
+      ...mergeSubscriptionResults(here.destination, [here, there]),
+      unsubscribe: () => Promise.all([here.unsubscribe(), there.unsubscribe()])
+        .then(results => mergeSubscriptionResults(results[0].destination, results))
+    }));
+  }
+
   // Market data subscription methods
-  subscribeToMarketData(epics: string[]): void {
-    const subscription: MarketDataSubscription = { epics };
-    const message = this.createMessage('marketData.subscribe', subscription);
-    
-    this.subscriptions.set(`marketData_${epics.join(',')}`, message);
-    this.send(message);
+  // Epics are reference-counted: only epics not yet subscribed are sent to the server, and
+  // unsubscribing only releases one reference. Resolves once the server acknowledges the
+  // request; per-epic failures are listed in `failed`. Rejects, rather than throws, when the
+  // connection is down or the instrument limit is reached.
+  subscribeToMarketData(epics: string[]): Promise<SubscriptionHandle> {
+    let allocation: Allocation;
+    try {
+      allocation = this.allocate(epics);
+    } catch (error) {
+      return this.handled(Promise.reject(error));
+    }
+    const { local, overflow } = allocation;
+    const alreadyActive = local.filter(epic => this.tracker.hasMarketData(epic));
+    const added = this.tracker.addMarketData(local);
+
+    const subscription: MarketDataSubscription = { epics: added };
+    const request = this.requestAll('marketData.subscribe', added.length > 0 ? [subscription] : [], alreadyActive);
+
+    const handle = request.then(result => {
+      this.tracker.removeMarketData(result.failed.map(failure => failure.epic));
+      return { ...result, unsubscribe: () => this.unsubscribeFromMarketData(result.succeeded) };
+    }, error => {
+      this.tracker.removeMarketData(local);
+      throw error;
+    });
+
+    return this.handled(overflow.length > 0
+      ? this.withSpillover(handle, connection => connection.subscribeToMarketData(overflow))
+      : handle);
   }
 
-  unsubscribeFromMarketData(epics: string[]): void {
-    const subscription: MarketDataSubscription = { epics };
-    const message = this.createMessage('marketData.unsubscribe', subscription);
-    
-    this.subscriptions.delete(`marketData_${epics.join(',')}`);
-    this.send(message);
+  unsubscribeFromMarketData(epics: string[]): Promise<SubscriptionResult> {
+    const unique = Array.from(new Set(epics));
+    const tracked = unique.filter(epic => this.tracker.hasMarketData(epic));
+    const untracked = unique.filter(epic => !tracked.includes(epic));
+    const removed = this.tracker.removeMarketData(tracked);
+    // Untracked epics belong to the spill-over connection, if any
+    const released = this.spillover ? removed : removed.concat(untracked);
+
+    const subscription: MarketDataSubscription = { epics: released };
+    const result = this.requestAll(
+      'marketData.unsubscribe',
+      released.length > 0 ? [subscription] : [],
+      tracked.filter(epic => !removed.includes(epic))
+    );
+
+    if (this.spillover && untracked.length > 0) {
+      const remote = this.spillover.connection.unsubscribeFromMarketData(untracked);
+      return this.handled(Promise.all([result, remote]).then(results => mergeSubscriptionResults('marketData.unsubscribe', results)));
+    }
+    return this.handled(result);
   }
 
   // OHLC data subscription methods
+  // Tracked per epic, resolution and type; resolutions default to MINUTE
   subscribeToOHLCData(
     epics: string[],
     resolutions?: Resolution[],
-    type?: 'classic' | 'heikin-ashi'
-  ): void {
-    const subscription: OHLCSubscription = {
-      epics,
-      resolutions,
-      type
-    };
-    const message = this.createMessage('OHLCMarketData.subscribe', subscription);
-    
-    const key = `ohlc_${epics.join(',')}_${resolutions?.join(',') || 'default'}_${type || 'classic'}`;
-    this.subscriptions.set(key, message);
-    this.send(message);
+    type?: OHLCType
+  ): Promise<SubscriptionHandle> {
+    const kind = type || 'classic';
+    const requested: Resolution[] = resolutions && resolutions.length > 0 ? resolutions : ['MINUTE'];
+    let allocation: Allocation;
+    try {
+      allocation = this.allocate(epics);
+    } catch (error) {
+      return this.handled(Promise.reject(error));
+    }
+    const { local, overflow } = allocation;
+
+    // Resolutions that need the same epics share one request
+    const groups = new Map<string, OHLCSubscription>();
+    requested.forEach(resolution => {
+      const added = this.tracker.addOHLC(local, resolution, kind);
+      if (added.length > 0) {
+        const key = added.join(',');
+        const group = groups.get(key) || { epics: added, resolutions: [], type };
+        group.resolutions!.push(resolution);
+        groups.set(key, group);
+      }
+    });
+    const payloads = Array.from(groups.values());
+    const alreadyActive = local.filter(epic => !payloads.some(payload => payload.epics.includes(epic)));
+    const rollback = (rolledBack: string[]) => requested.forEach(resolution => this.tracker.removeOHLC(rolledBack, resolution, kind));
+
+    const request = this.requestAll('OHLCMarketData.subscribe', payloads, alreadyActive);
+
+    const handle = request.then(result => {
+      rollback(result.failed.map(failure => failure.epic));
+      return { ...result, unsubscribe: () => this.unsubscribeFromOHLCData(result.succeeded, requested, [kind]) };
+    }, error => {
+      rollback(local);
+      throw error;
+    });
+
+    return this.handled(overflow.length > 0
+      ? this.withSpillover(handle, connection => connection.subscribeToOHLCData(overflow, requested, type))
+      : handle);
   }
 
   unsubscribeFromOHLCData(
     epics: string[],
     resolutions?: Resolution[],
-    types?: ('classic' | 'heikin-ashi')[]
-  ): void {
-    const subscription: any = {
-      epics,
-      resolutions,
-      types
-    };
-    const message = this.createMessage('OHLCMarketData.unsubscribe', subscription);
-    
-    const key = `ohlc_${epics.join(',')}_${resolutions?.join(',') || 'default'}_${types?.join(',') || 'classic'}`;
-    this.subscriptions.delete(key);
-    this.send(message);
+    types?: OHLCType[]
+  ): Promise<SubscriptionResult> {
+    const unique = Array.from(new Set(epics));
+    const requested: Resolution[] = resolutions && resolutions.length > 0 ? resolutions : ['MINUTE'];
+    const kinds: OHLCType[] = types && types.length > 0 ? types : ['classic'];
+
+    const isTracked = (epic: string) => requested.some(resolution => kinds.some(kind => this.tracker.hasOHLC(epic, resolution, kind)));
+    const tracked = unique.filter(isTracked);
+    const untracked = unique.filter(epic => !tracked.includes(epic));
+
+    const payloads: any[] = [];
+    const released = new Set<string>();
+    kinds.forEach(kind => {
+      requested.forEach(resolution => {
+        const removed = this.tracker.removeOHLC(tracked, resolution, kind)
+          .concat(this.spillover ? [] : untracked);
+        removed.forEach(epic => released.add(epic));
+        if (removed.length > 0) {
+          payloads.push({ epics: removed, resolutions: [resolution], types: [kind] });
+        }
+      });
+    });
+
+    const result = this.requestAll('OHLCMarketData.unsubscribe', payloads, tracked.filter(epic => !released.has(epic)));
+
+    if (this.spillover && untracked.length > 0) {
+      const remote = this.spillover.connection.unsubscribeFromOHLCData(untracked, resolutions, types);
+      return this.handled(Promise.all([result, remote]).then(results => mergeSubscriptionResults('OHLCMarketData.unsubscribe', results)));
+    }
+    return this.handled(result);
+  }
+
+  // Typed per-epic streams; the epic must be subscribed separately
+  quotes(epic: string): EventStream<QuoteData> {
+    let remove = () => {};
+    const stream = new EventStream<QuoteData>(() => remove());
+    remove = this.addRoute(this.quoteStreams, epic, stream);
+    return stream;
   }
 
-  // Ping to keep connection alive
-  ping(): void {
+  // Classic OHLC bars as candles, optionally limited to one price side
+  candles(epic: string, resolution: Resolution, side?: 'bid' | 'ask'): EventStream<Candle> {
+    let remove = () => {};
+    const stream = new EventStream<Candle>(() => remove());
+    remove = this.addRoute(this.candleStreams, `${epic}:${resolution}`, { stream, side });
+    return stream;
+  }
+
+  // Ping to keep connection alive; returns the correlationId of the ping
+  ping(): string {
     const message = this.createMessage('ping');
     this.send(message);
+    this.pendingPings.set(message.correlationId, Date.now());
+    // Pings the server never answered are forgotten eventually
+    if (this.pendingPings.size > MAX_LATENCY_SAMPLES) {
+      this.pendingPings.delete(this.pendingPings.keys().next().value as string);
+    }
+    return message.correlationId;
   }
 
-  // Start auto-ping to keep connection alive (ping every 9 minutes)
+  private recordPong(correlationId?: string): void {
+    this.watchdog?.recordPong(correlationId);
+
+    const sentAt = correlationId === undefined ? undefined : this.pendingPings.get(correlationId);
+    if (sentAt === undefined) {
+      return;
+    }
+    this.pendingPings.delete(correlationId!);
+    this.latencies.push(Date.now() - sentAt);
+    if (this.latencies.length > MAX_LATENCY_SAMPLES) {
+      this.latencies.shift();
+    }
+  }
+
+  // Round-trip statistics over the last 100 answered pings; undefined before the first pong
+  getLatencyStats(): LatencyStats | undefined {
+    if (this.latencies.length === 0) {
+      return undefined;
+    }
+
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    return {
+      samples: sorted.length,
+      last: this.latencies[this.latencies.length - 1],
+      min: sorted[0],
+      avg: sorted.reduce((sum, latency) => sum + latency, 0) / sorted.length,
+      // Nearest-rank percentile
+      p95: sorted[Math.ceil(sorted.length * 0.95) - 1]
+    };
+  }
+
+  // Drop the connection so that it reconnects, e.g. when the stream went quiet.
+  // Without reconnection enabled the connection stays closed.
+  forceReconnect(): void {
+    if (this.state === 'open' && this.ws) {
+      this.ws.terminate();
+    }
+  }
+
+  // Time of the last quote received for the epic (epoch ms); requires `heartbeat`
+  getLastQuoteTime(epic: string): number | undefined {
+    return this.watchdog?.getLastUpdate(epic);
+  }
+
+  // Round-trip time of the last answered ping in milliseconds
+  getPongLatency(): number | undefined {
+    return this.getLatencyStats()?.last;
+  }
+
+  // Start auto-ping to keep connection alive (ping every 9 minutes), on the spill-over connection too.
+  // Replaces a running auto-ping; it keeps running across reconnects and stops with disconnect().
   startAutoPing(interval: number = 540000): void {
-    setInterval(() => {
+    this.clearAutoPing();
+    this.autoPingInterval = interval;
+    this.autoPingTimer = setInterval(() => {
       if (this.isConnectedToServer()) {
         this.ping();
       }
     }, interval);
+    this.spillover?.connection.startAutoPing(interval);
+  }
+
+  stopAutoPing(): void {
+    this.clearAutoPing();
+    this.spillover?.connection.stopAutoPing();
+  }
+
+  private clearAutoPing(): void {
+    if (this.autoPingTimer) {
+      clearInterval(this.autoPingTimer);
+      this.autoPingTimer = undefined;
+    }
+    this.autoPingInterval = undefined;
   }
 
   // Update authentication tokens
   updateTokens(cst: string, securityToken: string): void {
     this.cst = cst;
     this.securityToken = securityToken;
+    this.spillover?.connection.updateTokens(cst, securityToken);
   }
 }
\ No newline at end of file
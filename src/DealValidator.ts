@@ -0,0 +1,223 @@
+import {
+  CreatePositionRequest,
+  CreateWorkingOrderRequest,
+  DealingRuleValue,
+  DealValidationResult,
+  DealViolation,
+  Direction,
+  MarketDetailsResponse
+} from './types';
+
+interface CachedMarketDetails {
+  details: MarketDetailsResponse;
+  fetchedAt: number;
+}
+
+const EPSILON = 1e-9;
+
+// Rules the market does not define (or defines without a value) are not enforced
+function toRuleValue(rule: DealingRuleValue | undefined): DealingRuleValue | undefined {
+  return rule && typeof rule.value === 'number' ? rule : undefined;
+}
+
+// Convert a rule to price points; percentage rules are relative to the reference price
+function toPoints(rule: DealingRuleValue, referencePrice: number): number {
+  return rule.unit === 'PERCENTAGE' ? (referencePrice * rule.value) / 100 : rule.value;
+}
+
+function isMultipleOf(value: number, step: number): boolean {
+  const ratio = value / step;
+  return Math.abs(ratio - Math.round(ratio)) < 1e-6;
+}
+
+/**
+ * Check a position or working order request against the market's dealing rules.
+ * `level` is the order level for working orders; positions use the current bid/offer.
+ */
+export function validateDealRequest(
+  request: CreatePositionRequest | CreateWorkingOrderRequest,
+  market: MarketDetailsResponse
+): DealValidationResult {
+  const violations: DealViolation[] = [];
+  const rules = market.dealingRules;
+  const add = (violation: DealViolation) => violations.push(violation);
+
+  // Size
+  const minDealSize = toRuleValue(rules.minDealSize);
+  const maxDealSize = toRuleValue(rules.maxDealSize);
+  const minSizeIncrement = toRuleValue(rules.minSizeIncrement);
+
+  if (!(request.size > 0)) {
+    add({ field: 'size', rule: 'positiveSize', message: 'Size must be greater than zero', value: request.size });
+  } else {
+    if (minDealSize && request.size < minDealSize.value - EPSILON) {
+      add({
+        field: 'size',
+        rule: 'minDealSize',
+        message: `Size ${request.size} is below the minimum deal size of ${minDealSize.value}`,
+        value: request.size,
+        limit: minDealSize.value
+      });
+    }
+    if (maxDealSize && request.size > maxDealSize.value + EPSILON) {
+      add({
+        field: 'size',
+        rule: 'maxDealSize',
+        message: `Size ${request.size} exceeds the maximum deal size of ${maxDealSize.value}`,
+        value: request.size,
+        limit: maxDealSize.value
+      });
+    }
+    if (minSizeIncrement && minSizeIncrement.value > 0 && !isMultipleOf(request.size, minSizeIncrement.value)) {
+      add({
+        field: 'size',
+        rule: 'minSizeIncrement',
+        message: `Size ${request.size} is not a multiple of the size increment ${minSizeIncrement.value}`,
+        value: request.size,
+        limit: minSizeIncrement.value
+      });
+    }
+  }
+
+  // Stop and profit distances
+  const referencePrice = 'level' in request && request.level !== undefined
+    ? request.level
+    : request.direction === 'BUY' ? market.snapshot.offer : market.snapshot.bid;
+
+  const stopDistance = getDistance('stop', request.direction, referencePrice, request.stopLevel, request.stopDistance, add);
+  const profitDistance = getDistance('profit', request.direction, referencePrice, request.profitLevel, request.profitDistance, add);
+
+  const minDistance = toRuleValue(rules.minStopOrProfitDistance);
+  const maxDistance = toRuleValue(rules.maxStopOrProfitDistance);
+  const checkDistance = (field: 'stop' | 'profit', distance?: number) => {
+    if (distance === undefined || distance <= 0) {
+      return;
+    }
+    if (minDistance && distance < toPoints(minDistance, referencePrice) - EPSILON) {
+      add({
+        field,
+        rule: 'minStopOrProfitDistance',
+        message: `${field === 'stop' ? 'Stop' : 'Profit'} distance ${distance} is below the minimum of ${toPoints(minDistance, referencePrice)}`,
+        value: distance,
+        limit: toPoints(minDistance, referencePrice)
+      });
+    }
+    if (maxDistance && distance > toPoints(maxDistance, referencePrice) + EPSILON) {
+      add({
+        field,
+        rule: 'maxStopOrProfitDistance',
+        message: `${field === 'stop' ? 'Stop' : 'Profit'} distance ${distance} exceeds the maximum of ${toPoints(maxDistance, referencePrice)}`,
+        value: distance,
+        limit: toPoints(maxDistance, referencePrice)
+      });
+    }
+  };
+  checkDistance('stop', stopDistance);
+  checkDistance('profit', profitDistance);
+
+  // Guaranteed stop
+  if (request.guaranteedStop) {
+    if (!market.instrument.guaranteedStopAllowed) {
+      add({ field: 'guaranteedStop', rule: 'guaranteedStopAllowed', message: 'Guaranteed stops are not allowed on this market' });
+    }
+    if (stopDistance === undefined && request.stopAmount === undefined) {
+      add({ field: 'guaranteedStop', rule: 'guaranteedStopRequiresStop', message: 'A guaranteed stop requires a stop level or distance' });
+    }
+    const minGuaranteed = toRuleValue(rules.minGuaranteedStopDistance);
+    if (minGuaranteed && stopDistance !== undefined && stopDistance > 0 &&
+        stopDistance < toPoints(minGuaranteed, referencePrice) - EPSILON) {
+      add({
+        field: 'stop',
+        rule: 'minGuaranteedStopDistance',
+        message: `Guaranteed stop distance ${stopDistance} is below the minimum of ${toPoints(minGuaranteed, referencePrice)}`,
+        value: stopDistance,
+        limit: toPoints(minGuaranteed, referencePrice)
+      });
+    }
+  }
+
+  // Trailing stop
+  if (request.trailingStop) {
+    if (rules.trailingStopsPreference !== 'AVAILABLE') {
+      add({ field: 'trailingStop', rule: 'trailingStopsPreference', message: 'Trailing stops are not available on this market' });
+    }
+    if (request.guaranteedStop) {
+      add({ field: 'trailingStop', rule: 'trailingStopWithGuaranteedStop', message: 'A trailing stop cannot be guaranteed' });
+    }
+    if (request.stopDistance === undefined) {
+      add({ field: 'trailingStop', rule: 'trailingStopRequiresDistance', message: 'A trailing stop requires a stop distance' });
+    }
+  }
+
+  return { valid: violations.length === 0, violations };
+}
+
+function getDistance(
+  field: 'stop' | 'profit',
+  direction: Direction,
+  referencePrice: number,
+  level: number | undefined,
+  distance: number | undefined,
+  add: (violation: DealViolation) => void
+): number | undefined {
+  if (distance !== undefined) {
+    if (distance <= 0) {
+      add({ field, rule: 'positiveDistance', message: `${field === 'stop' ? 'Stop' : 'Profit'} distance must be greater than zero`, value: distance });
+    }
+    return distance;
+  }
+  if (level === undefined) {
+    return undefined;
+  }
+
+  // Stops sit below a BUY and above a SELL; profit targets the other way around
+  const below = (field === 'stop') === (direction === 'BUY');
+  const result = below ? referencePrice - level : level - referencePrice;
+  if (result <= 0) {
+    add({
+      field,
+      rule: 'levelSide',
+      message: `${field === 'stop' ? 'Stop' : 'Profit'} level ${level} must be ${below ? 'below' : 'above'} ${referencePrice} for a ${direction} deal`,
+      value: level,
+      limit: referencePrice
+    });
+  }
+  return result;
+}
+
+/**
+ * Validates deal requests against `getMarketDetails(epic).dealingRules`, caching market details per epic.
+ */
+export class DealValidator {
+  private readonly fetchMarketDetails: (epic: string) => Promise<MarketDetailsResponse>;
+  private readonly cacheTtl: number;
+  private cache = new Map<string, CachedMarketDetails>();
+
+  constructor(fetchMarketDetails: (epic: string) => Promise<MarketDetailsResponse>, cacheTtl = 60000) {
+    this.fetchMarketDetails = fetchMarketDetails;
+    this.cacheTtl = cacheTtl;
+  }
+
+  async getMarketDetails(epic: string): Promise<MarketDetailsResponse> {
+    const cached = this.cache.get(epic);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtl) {
+      return cached.details;
+    }
+
+    const details = await this.fetchMarketDetails(epic);
+    this.cache.set(epic, { details, fetchedAt: Date.now() });
+    return details;
+  }
+
+  async validate(request: CreatePositionRequest | CreateWorkingOrderRequest): Promise<DealValidationResult> {
+    return validateDealRequest(request, await this.getMarketDetails(request.epic));
+  }
+
+  clearCache(epic?: string): void {
+    if (epic) {
+      this.cache.delete(epic);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * A typed stream of values for a single epic. Values can be consumed with listeners
+ * or with `for await`; closing the stream ends every iterator and removes all listeners.
+ */
+export class EventStream<T> implements AsyncIterable<T> {
+  private listeners = new Set<(value: T) => void>();
+  private finishers = new Set<() => void>();
+  private closed = false;
+  private readonly onClose?: () => void;
+  private readonly bufferSize: number;
+
+  // `bufferSize` bounds the values queued per iterator; the oldest are dropped first
+  constructor(onClose?: () => void, bufferSize = 1000) {
+    this.onClose = onClose;
+    this.bufferSize = bufferSize;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  on(listener: (value: T) => void): this {
+    if (!this.closed) {
+      this.listeners.add(listener);
+    }
+    return this;
+  }
+
+  off(listener: (value: T) => void): this {
+    this.listeners.delete(listener);
+    return this;
+  }
+
+  push(value: T): void {
+    this.listeners.forEach(listener => listener(value));
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.finishers.forEach(finish => finish());
+    this.listeners.clear();
+    this.onClose?.();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    const queue: T[] = [];
+    let waiting: ((result: IteratorResult<T>) => void) | undefined;
+    let done = this.closed;
+
+    const listener = (value: T) => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = undefined;
+        resolve({ value, done: false });
+        return;
+      }
+      queue.push(value);
+      if (queue.length > this.bufferSize) {
+        queue.shift();
+      }
+    };
+
+    const finish = () => {
+      done = true;
+      this.listeners.delete(listener);
+      this.finishers.delete(finish);
+      if (waiting) {
+        waiting({ value: undefined, done: true });
+        waiting = undefined;
+      }
+    };
+
+    if (!done) {
+      this.listeners.add(listener);
+      this.finishers.add(finish);
+    }
+
+    return {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift() as T, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => {
+          waiting = resolve;
+        });
+      },
+      // Breaking out of `for await` only stops this iterator
+      return: () => {
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      }
+    };
+  }
+}
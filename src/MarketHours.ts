@@ -0,0 +1,258 @@
+import { parseOpeningHours, OPENING_HOURS_DAYS } from './parsers';
+import {
+  MarketDetailsResponse,
+  MarketHoursOptions,
+  MarketSession,
+  OpeningHours,
+  ParsedOpeningHours,
+  WeeklySchedule
+} from './types';
+
+const MINUTES_PER_DAY = 1440;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+interface WeekInterval {
+  start: number;
+  end: number;
+}
+
+const FIXED_OFFSET_PATTERN = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+// e.g. 'UTC+02:00' for an offset of 120 minutes
+function formatOffsetZone(minutes: number): string {
+  if (minutes === 0) {
+    return 'UTC';
+  }
+  const absolute = Math.abs(minutes);
+  const hours = Math.floor(absolute / 60);
+  const mins = absolute % 60;
+  return `UTC${minutes < 0 ? '-' : '+'}${hours < 10 ? '0' : ''}${hours}:${mins < 10 ? '0' : ''}${mins}`;
+}
+
+function formatTime(minutes: number): string {
+  const value = minutes % MINUTES_PER_DAY;
+  const hours = Math.floor(value / 60);
+  const mins = value % 60;
+  return `${hours < 10 ? '0' : ''}${hours}:${mins < 10 ? '0' : ''}${mins}`;
+}
+
+/**
+ * Opening hours of a single market, answering "is it open" and "when does it open/close next".
+ * Ranges are interpreted in the opening hours' `zone`; when the zone is missing the session
+ * `timezoneOffset` (hours) applies.
+ */
+export class MarketHours {
+  private readonly hours: ParsedOpeningHours;
+  private readonly zone?: string;
+  private readonly fixedOffset?: number;
+  // The zone ranges are read in, including one derived from the session offset
+  private readonly effectiveZone: string;
+  private readonly intervals: WeekInterval[];
+
+  constructor(openingHours: OpeningHours | ParsedOpeningHours, options: MarketHoursOptions = {}) {
+    this.hours = 'days' in openingHours ? openingHours as ParsedOpeningHours : parseOpeningHours(openingHours);
+
+    const zone = this.hours.zone;
+    const match = zone ? FIXED_OFFSET_PATTERN.exec(zone.trim()) : null;
+    if (!zone) {
+      this.fixedOffset = (options.timezoneOffset || 0) * 60;
+    } else if (/^(UTC|GMT|Z)$/i.test(zone.trim())) {
+      this.fixedOffset = 0;
+    } else if (match) {
+      this.fixedOffset = (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3] || 0));
+    } else {
+      // Throws a RangeError for unknown IANA zones
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      this.zone = zone;
+    }
+    this.effectiveZone = zone || formatOffsetZone(this.fixedOffset!);
+
+    this.intervals = this.buildIntervals();
+  }
+
+  getZone(): string {
+    return this.effectiveZone;
+  }
+
+  isOpen(at: Date = new Date()): boolean {
+    const minute = this.getWeekMinute(at.getTime());
+    // Sessions wrapping past Sunday midnight extend beyond the end of the week
+    return this.intervals.some(interval =>
+      (minute >= interval.start && minute < interval.end) ||
+      (minute + MINUTES_PER_WEEK >= interval.start && minute + MINUTES_PER_WEEK < interval.end));
+  }
+
+  // Next time the market opens after `at` (after the current session if it is open now)
+  nextOpen(at: Date = new Date()): Date | undefined {
+    return this.nextBoundary(at, this.intervals.map(interval => interval.start));
+  }
+
+  // Next time the market closes after `at` (the end of the next session if it is closed now)
+  nextClose(at: Date = new Date()): Date | undefined {
+    return this.nextBoundary(at, this.intervals.map(interval => interval.end % MINUTES_PER_WEEK));
+  }
+
+  getWeeklySchedule(): WeeklySchedule {
+    const sessions: MarketSession[] = this.intervals.map(interval => ({
+      openDay: OPENING_HOURS_DAYS[Math.floor(interval.start / MINUTES_PER_DAY)],
+      openTime: formatTime(interval.start),
+      closeDay: OPENING_HOURS_DAYS[Math.floor((interval.end % MINUTES_PER_WEEK) / MINUTES_PER_DAY)],
+      closeTime: formatTime(interval.end),
+      durationMinutes: interval.end - interval.start
+    }));
+
+    return { zone: this.effectiveZone, days: this.hours.days, sessions };
+  }
+
+  // Continuous sessions in minutes since Monday 00:00, merged across midnight and the week boundary
+  private buildIntervals(): WeekInterval[] {
+    const intervals: WeekInterval[] = [];
+    OPENING_HOURS_DAYS.forEach((day, index) => {
+      this.hours.days[day].forEach(range => {
+        const start = index * MINUTES_PER_DAY + range.startMinutes;
+        const end = index * MINUTES_PER_DAY + range.endMinutes;
+        const last = intervals[intervals.length - 1];
+        if (last && start <= last.end) {
+          last.end = Math.max(last.end, end);
+        } else {
+          intervals.push({ start, end });
+        }
+      });
+    });
+
+    // A session running into Monday 00:00 continues the week's first session
+    const first = intervals[0];
+    const last = intervals[intervals.length - 1];
+    if (intervals.length > 1 && first.start === 0 && last.end === MINUTES_PER_WEEK) {
+      intervals.shift();
+      last.end = MINUTES_PER_WEEK + first.end;
+    }
+
+    return intervals;
+  }
+
+  private nextBoundary(at: Date, boundaries: number[]): Date | undefined {
+    // Always open (or never open): there is no next boundary
+    if (this.intervals.length === 0 ||
+        (this.intervals.length === 1 && this.intervals[0].end - this.intervals[0].start >= MINUTES_PER_WEEK)) {
+      return undefined;
+    }
+
+    const utc = at.getTime();
+    const minute = this.getWeekMinute(utc);
+    let delta = Infinity;
+    boundaries.forEach(boundary => {
+      let candidate = (boundary - minute) % MINUTES_PER_WEEK;
+      if (candidate <= 0) {
+        candidate += MINUTES_PER_WEEK;
+      }
+      delta = Math.min(delta, candidate);
+    });
+
+    const targetLocal = utc + this.getOffset(utc) * 60000 + Math.round(delta * 60000);
+    return new Date(this.localToUtc(targetLocal));
+  }
+
+  private getWeekMinute(utc: number): number {
+    const local = new Date(utc + this.getOffset(utc) * 60000);
+    const day = (local.getUTCDay() + 6) % 7;
+    return day * MINUTES_PER_DAY +
+      local.getUTCHours() * 60 +
+      local.getUTCMinutes() +
+      local.getUTCSeconds() / 60 +
+      local.getUTCMilliseconds() / 60000;
+  }
+
+  // Offset of the zone from UTC in minutes at the given instant
+  private getOffset(utc: number): number {
+    if (this.fixedOffset !== undefined) {
+      return this.fixedOffset;
+    }
+
+    const parts: Record<string, number> = {};
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: this.zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }).formatToParts(new Date(utc)).forEach(part => {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    });
+
+    const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+    return Math.round((local - (utc - (utc % 1000 + 1000) % 1000)) / 60000);
+  }
+
+  private localToUtc(local: number): number {
+    const guess = local - this.getOffset(local) * 60000;
+    return local - this.getOffset(guess) * 60000;
+  }
+}
+
+/**
+ * Market hours per epic, built from `getMarketDetails(epic).instrument.openingHours` and cached.
+ */
+export class MarketCalendar {
+  private readonly fetchMarketDetails: (epic: string) => Promise<MarketDetailsResponse>;
+  private readonly getTimezoneOffset: () => number | undefined;
+  private readonly cacheTtl: number;
+  private cache = new Map<string, { hours: MarketHours | null; fetchedAt: number }>();
+
+  constructor(
+    fetchMarketDetails: (epic: string) => Promise<MarketDetailsResponse>,
+    getTimezoneOffset: () => number | undefined = () => undefined,
+    cacheTtl = 3600000
+  ) {
+    this.fetchMarketDetails = fetchMarketDetails;
+    this.getTimezoneOffset = getTimezoneOffset;
+    this.cacheTtl = cacheTtl;
+  }
+
+  // Resolves to null for markets without published opening hours
+  async getMarketHours(epic: string): Promise<MarketHours | null> {
+    const cached = this.cache.get(epic);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtl) {
+      return cached.hours;
+    }
+
+    const details = await this.fetchMarketDetails(epic);
+    const openingHours = details.instrument.openingHours;
+    const hours = openingHours
+      ? new MarketHours(openingHours, { timezoneOffset: this.getTimezoneOffset() })
+      : null;
+    this.cache.set(epic, { hours, fetchedAt: Date.now() });
+    return hours;
+  }
+
+  // Markets without opening hours are treated as always open
+  async isMarketOpen(epic: string, at?: Date): Promise<boolean> {
+    const hours = await this.getMarketHours(epic);
+    return hours ? hours.isOpen(at) : true;
+  }
+
+  async nextOpen(epic: string, at?: Date): Promise<Date | undefined> {
+    return (await this.getMarketHours(epic))?.nextOpen(at);
+  }
+
+  async nextClose(epic: string, at?: Date): Promise<Date | undefined> {
+    return (await this.getMarketHours(epic))?.nextClose(at);
+  }
+
+  async getWeeklySchedule(epic: string): Promise<WeeklySchedule | undefined> {
+    return (await this.getMarketHours(epic))?.getWeeklySchedule();
+  }
+
+  clearCache(epic?: string): void {
+    if (epic) {
+      this.cache.delete(epic);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -0,0 +1,664 @@
+import { EventEmitter } from 'events';
+import { NotFoundError, ValidationError } from './errors';
+import { parseApiTime } from './history';
+import {
+  Activity,
+  ActivitySource,
+  ActivityType,
+  Balance,
+  CreatePositionRequest,
+  CreateWorkingOrderRequest,
+  DealConfirmation,
+  DealStatus,
+  Direction,
+  Leverages,
+  Market,
+  MarketDetailsResponse,
+  OrderType,
+  PositionResponse,
+  Transaction,
+  UpdatePositionRequest,
+  UpdateWorkingOrderRequest,
+  WorkingOrderResponse
+} from './types';
+
+// Leverages of a new retail account
+export const DEFAULT_LEVERAGES: Leverages = {
+  SHARES: 5,
+  CURRENCIES: 30,
+  INDICES: 20,
+  CRYPTOCURRENCIES: 2,
+  COMMODITIES: 20
+};
+
+// What the book needs to know about a market to price, margin and report deals
+export interface PaperMarket {
+  epic: string;
+  bid: number;
+  offer: number;
+  currency: string;
+  // Share of a deal's value held as margin, in percent
+  marginFactor: number;
+  minDealSize: number;
+  tradeable: boolean;
+  // Embedded in position and working order responses
+  market: Market;
+}
+
+export interface PaperBookHooks {
+  // Current state of a market; throws for unknown epics
+  getMarket(epic: string): PaperMarket;
+  // Cash balance the book trades against
+  getCash(): number;
+  adjustCash(amount: number): void;
+  // Default: Date.now
+  now?(): number;
+  // Default: sequential UUID-shaped ids
+  createId?(): string;
+}
+
+export interface PaperPosition {
+  dealId: string;
+  dealReference: string;
+  epic: string;
+  direction: Direction;
+  size: number;
+  level: number;
+  createdAt: number;
+  guaranteedStop: boolean;
+  trailingStop: boolean;
+  stopLevel?: number;
+  profitLevel?: number;
+  // Distance a trailing stop keeps from the price
+  stopDistance?: number;
+  workingOrderId?: string;
+}
+
+export interface PaperWorkingOrder {
+  dealId: string;
+  dealReference: string;
+  epic: string;
+  direction: Direction;
+  type: OrderType;
+  size: number;
+  level: number;
+  createdAt: number;
+  goodTillDate?: string;
+  guaranteedStop: boolean;
+  trailingStop: boolean;
+  stopLevel?: number;
+  stopDistance?: number;
+  profitLevel?: number;
+  profitDistance?: number;
+}
+
+type StopAndProfit = Pick<CreatePositionRequest,
+  'stopLevel' | 'stopDistance' | 'stopAmount' | 'profitLevel' | 'profitDistance' | 'profitAmount'>;
+
+type AmendableOrderField = keyof UpdateWorkingOrderRequest & keyof PaperWorkingOrder;
+
+const AMENDABLE_ORDER_FIELDS: AmendableOrderField[] = [
+  'level', 'goodTillDate', 'guaranteedStop', 'trailingStop', 'stopLevel', 'stopDistance', 'profitLevel', 'profitDistance'
+];
+
+const CLOSE_DESCRIPTIONS: Partial<Record<ActivitySource, string>> = {
+  SL: 'Position closed by stop loss',
+  TP: 'Position closed by take profit'
+};
+
+function toApiDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 23);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+// Errors carry the status and error code the API would have answered with
+function requestError(status: 400 | 404, errorCode: string): ValidationError | NotFoundError {
+  const message = `API Error (${status}): ${errorCode}`;
+  return status === 404 ? new NotFoundError(message, { status, errorCode }) : new ValidationError(message, { status, errorCode });
+}
+
+export function marketFromDetails(details: MarketDetailsResponse): Market {
+  const { instrument, snapshot } = details;
+  return {
+    instrumentName: instrument.name,
+    expiry: instrument.expiry,
+    marketStatus: snapshot.marketStatus,
+    epic: instrument.epic,
+    symbol: instrument.symbol,
+    instrumentType: instrument.type,
+    lotSize: instrument.lotSize,
+    high: snapshot.high,
+    low: snapshot.low,
+    percentageChange: snapshot.percentageChange,
+    netChange: snapshot.netChange,
+    bid: snapshot.bid,
+    offer: snapshot.offer,
+    updateTime: snapshot.updateTime,
+    updateTimeUTC: snapshot.updateTime,
+    delayTime: snapshot.delayTime,
+    streamingPricesAvailable: instrument.streamingPricesAvailable,
+    scalingFactor: snapshot.scalingFactor,
+    marketModes: snapshot.marketModes
+  };
+}
+
+/**
+ * Simulated book of positions, working orders and deal confirmations, in the shapes
+ * the REST API returns them.
+ *
+ * `match(epic)` runs the book against the market's current price: working orders expire
+ * or fill at the market price, trailing stops follow the price, and positions close when
+ * their stop or profit level is reached. Margin is held per the market's margin factor,
+ * realized P&L is booked through `adjustCash`, and each step is recorded in the activity
+ * and transaction history.
+ *
+ * Events:
+ * - `filled` (order, position) — a working order was triggered
+ * - `closed` (position, level, profitLoss, source) — a position was closed; source is
+ *   'USER', 'SL' or 'TP'
+ */
+export class PaperBook extends EventEmitter {
+  private readonly hooks: PaperBookHooks;
+  private counter = 0;
+  private positions = new Map<string, PaperPosition>();
+  private workingOrders = new Map<string, PaperWorkingOrder>();
+  private confirmations = new Map<string, DealConfirmation>();
+  private activities: Activity[] = [];
+  private transactions: Transaction[] = [];
+
+  constructor(hooks: PaperBookHooks) {
+    super();
+    this.hooks = hooks;
+  }
+
+  // Positions
+
+  getPositions(): PositionResponse[] {
+    return Array.from(this.positions.values()).map(position => this.toPositionResponse(position));
+  }
+
+  getPosition(dealId: string): PositionResponse {
+    return this.toPositionResponse(this.getPositionState(dealId));
+  }
+
+  createPosition(request: CreatePositionRequest): string {
+    const dealReference = `o_${this.nextId()}`;
+    if (request.trailingStop && request.stopDistance === undefined) {
+      throw requestError(400, 'error.invalid.trailingstop.nostopdistance');
+    }
+    const { bid, offer } = this.hooks.getMarket(request.epic);
+    const level = request.direction === 'BUY' ? offer : bid;
+    const rejection = this.checkDeal(request.epic, request.size) || this.checkMargin(request.epic, request.size, level);
+    if (rejection) {
+      return this.reject(dealReference, request.epic, request.direction, request.size, rejection);
+    }
+
+    const position = this.openPosition(request, level, dealReference);
+    this.confirm(position, dealReference, 'OPEN', 'OPENED');
+    this.record('POSITION', 'ACCEPTED', 'USER', position, 'Position opened');
+    return dealReference;
+  }
+
+  updatePosition(dealId: string, request: UpdatePositionRequest): string {
+    const position = this.getPositionState(dealId);
+    const dealReference = `p_${this.nextId()}`;
+    const trailingStop = request.trailingStop ?? position.trailingStop;
+    const stopDistance = request.stopDistance ?? position.stopDistance;
+    if (trailingStop && stopDistance === undefined) {
+      throw requestError(400, 'error.invalid.trailingstop.nostopdistance');
+    }
+
+    Object.assign(position, this.resolveStops(position.direction, position.level, position.size, request, position));
+    if (request.guaranteedStop !== undefined) {
+      position.guaranteedStop = request.guaranteedStop;
+    }
+    position.trailingStop = trailingStop;
+    position.stopDistance = stopDistance;
+    if (trailingStop) {
+      // A trailing stop restarts at its distance from the current price
+      position.stopLevel = round(this.getCloseLevel(position) - this.sign(position.direction) * stopDistance!);
+    }
+    this.confirm(position, dealReference, 'AMENDED', 'AMENDED');
+    this.record('EDIT_STOP_AND_LIMIT', 'MODIFIED', 'USER', position, 'Stop and limit levels amended');
+    return dealReference;
+  }
+
+  closePosition(dealId: string): string {
+    const position = this.getPositionState(dealId);
+    return this.settle(position, this.getCloseLevel(position), 'USER');
+  }
+
+  // Working orders
+
+  getWorkingOrders(): WorkingOrderResponse[] {
+    return Array.from(this.workingOrders.values()).map(order => this.toWorkingOrderResponse(order));
+  }
+
+  getWorkingOrder(dealId: string): WorkingOrderResponse {
+    return this.toWorkingOrderResponse(this.getWorkingOrderState(dealId));
+  }
+
+  createWorkingOrder(request: CreateWorkingOrderRequest): string {
+    const dealReference = `o_${this.nextId()}`;
+    const rejection = this.checkDeal(request.epic, request.size);
+    if (rejection) {
+      return this.reject(dealReference, request.epic, request.direction, request.size, rejection);
+    }
+
+    const order: PaperWorkingOrder = {
+      dealId: this.nextId(),
+      dealReference,
+      epic: request.epic,
+      direction: request.direction,
+      type: request.type,
+      size: request.size,
+      level: request.level,
+      createdAt: this.now(),
+      goodTillDate: request.goodTillDate,
+      guaranteedStop: !!request.guaranteedStop,
+      trailingStop: !!request.trailingStop,
+      stopLevel: request.stopLevel,
+      stopDistance: request.stopDistance,
+      profitLevel: request.profitLevel,
+      profitDistance: request.profitDistance
+    };
+    this.checkWorkingOrder(order);
+    this.workingOrders.set(order.dealId, order);
+    this.confirm(order, dealReference, 'OPEN', 'OPENED');
+    this.record('WORKING_ORDER', 'ACCEPTED', 'USER', order, 'Working order created');
+    return dealReference;
+  }
+
+  updateWorkingOrder(dealId: string, request: UpdateWorkingOrderRequest): string {
+    const order = this.getWorkingOrderState(dealId);
+    const dealReference = `o_${this.nextId()}`;
+    const amended: PaperWorkingOrder = { ...order };
+    AMENDABLE_ORDER_FIELDS.forEach(field => {
+      if (request[field] !== undefined) {
+        Object.assign(amended, { [field]: request[field] });
+      }
+    });
+    this.checkWorkingOrder(amended);
+    Object.assign(order, amended);
+    this.confirm(order, dealReference, 'AMENDED', 'AMENDED');
+    this.record('WORKING_ORDER', 'MODIFIED', 'USER', order, 'Working order amended');
+    return dealReference;
+  }
+
+  deleteWorkingOrder(dealId: string): string {
+    const order = this.getWorkingOrderState(dealId);
+    const dealReference = `o_${this.nextId()}`;
+    this.workingOrders.delete(dealId);
+    this.confirm(order, dealReference, 'DELETED', 'DELETED');
+    this.record('WORKING_ORDER', 'CANCELLED', 'USER', order, 'Working order deleted');
+    return dealReference;
+  }
+
+  getConfirmation(dealReference: string): DealConfirmation {
+    const confirmation = this.confirmations.get(dealReference);
+    if (!confirmation) {
+      throw requestError(404, 'error.not-found.dealReference');
+    }
+    return confirmation;
+  }
+
+  // History
+
+  addActivity(activity: Activity): void {
+    this.activities.push(activity);
+  }
+
+  addTransaction(transaction: Transaction): void {
+    this.transactions.push(transaction);
+  }
+
+  getActivities(params: { from?: string; to?: string; lastPeriod?: string | number; dealId?: string } = {}): Activity[] {
+    return this.filterByDate(this.activities, params)
+      .filter(activity => !params.dealId || activity.dealId === params.dealId);
+  }
+
+  getTransactions(params: { from?: string; to?: string; lastPeriod?: string | number; type?: string } = {}): Transaction[] {
+    return this.filterByDate(this.transactions, params)
+      .filter(transaction => !params.type || transaction.transactionType === params.type);
+  }
+
+  // Account
+
+  getBalance(): Balance {
+    const positions = Array.from(this.positions.values());
+    const balance = this.hooks.getCash();
+    const profitLoss = round(positions.reduce((sum, position) => sum + this.getProfitLoss(position), 0));
+    const deposit = round(positions.reduce((sum, position) => sum + this.getMargin(position.epic, position.size, position.level), 0));
+    return {
+      balance,
+      deposit,
+      profitLoss,
+      available: round(balance + profitLoss - deposit)
+    };
+  }
+
+  getProfitLoss(position: PaperPosition, level = this.getCloseLevel(position)): number {
+    return round((level - position.level) * this.sign(position.direction) * position.size);
+  }
+
+  getMargin(epic: string, size: number, level: number): number {
+    return round((size * level * this.hooks.getMarket(epic).marginFactor) / 100);
+  }
+
+  // Matching
+
+  // Run the working orders and positions of a market against its current price
+  match(epic: string): void {
+    if (!this.hooks.getMarket(epic).tradeable) {
+      return;
+    }
+
+    const now = this.now();
+    Array.from(this.workingOrders.values()).filter(order => order.epic === epic).forEach(order => {
+      if (order.goodTillDate && parseApiTime(order.goodTillDate).getTime() <= now) {
+        this.workingOrders.delete(order.dealId);
+        this.record('WORKING_ORDER', 'EXPIRED', 'SYSTEM', order, 'Working order expired');
+      } else if (this.isTriggered(order)) {
+        this.fill(order);
+      }
+    });
+
+    Array.from(this.positions.values()).filter(position => position.epic === epic).forEach(position => {
+      const level = this.getCloseLevel(position);
+      const sign = this.sign(position.direction);
+      if (position.trailingStop && position.stopDistance !== undefined) {
+        const trailed = round(level - sign * position.stopDistance);
+        if (position.stopLevel === undefined || (trailed - position.stopLevel) * sign > 0) {
+          position.stopLevel = trailed;
+        }
+      }
+
+      // The stop wins when a single tick reaches both levels
+      if (position.stopLevel !== undefined && (level - position.stopLevel) * sign <= 0) {
+        this.settle(position, position.guaranteedStop ? position.stopLevel : level, 'SL');
+      } else if (position.profitLevel !== undefined && (level - position.profitLevel) * sign >= 0) {
+        this.settle(position, level, 'TP');
+      }
+    });
+  }
+
+  // Helpers
+
+  private now(): number {
+    return this.hooks.now ? this.hooks.now() : Date.now();
+  }
+
+  private nextId(): string {
+    if (this.hooks.createId) {
+      return this.hooks.createId();
+    }
+    this.counter++;
+    return `00000000-0000-0000-0000-${this.counter.toString(16).padStart(12, '0')}`;
+  }
+
+  private sign(direction: Direction): number {
+    return direction === 'BUY' ? 1 : -1;
+  }
+
+  // Level a position closes at: the bid for longs, the offer for shorts
+  private getCloseLevel(position: PaperPosition): number {
+    const { bid, offer } = this.hooks.getMarket(position.epic);
+    return position.direction === 'BUY' ? bid : offer;
+  }
+
+  private getPositionState(dealId: string): PaperPosition {
+    const position = this.positions.get(dealId);
+    if (!position) {
+      throw requestError(404, 'error.not-found.dealId');
+    }
+    return position;
+  }
+
+  private getWorkingOrderState(dealId: string): PaperWorkingOrder {
+    const order = this.workingOrders.get(dealId);
+    if (!order) {
+      throw requestError(404, 'error.not-found.dealId');
+    }
+    return order;
+  }
+
+  // Returns the reason a deal is rejected, if any
+  private checkDeal(epic: string, size: number): string | undefined {
+    const market = this.hooks.getMarket(epic);
+    if (!(size >= market.minDealSize)) {
+      throw requestError(400, `error.invalid.size.minvalue: ${market.minDealSize}`);
+    }
+    return market.tradeable ? undefined : 'MARKET_CLOSED';
+  }
+
+  // Amends are held to the same rules as new orders
+  private checkWorkingOrder(order: PaperWorkingOrder): void {
+    if (!(order.level > 0) || (order.type !== 'LIMIT' && order.type !== 'STOP')) {
+      throw requestError(400, 'error.invalid.request');
+    }
+    if (order.trailingStop && order.stopDistance === undefined) {
+      throw requestError(400, 'error.invalid.trailingstop.nostopdistance');
+    }
+  }
+
+  private checkMargin(epic: string, size: number, level: number): string | undefined {
+    return this.getMargin(epic, size, level) > this.getBalance().available ? 'INSUFFICIENT_FUNDS' : undefined;
+  }
+
+  private resolveStops(
+    direction: Direction,
+    level: number,
+    size: number,
+    request: StopAndProfit,
+    current: { stopLevel?: number; profitLevel?: number } = {}
+  ): { stopLevel?: number; profitLevel?: number } {
+    const sign = this.sign(direction);
+    const distance = (points?: number, amount?: number) => points ?? (amount !== undefined ? amount / size : undefined);
+
+    const stopDistance = distance(request.stopDistance, request.stopAmount);
+    const profitDistance = distance(request.profitDistance, request.profitAmount);
+    return {
+      stopLevel: request.stopLevel ?? (stopDistance !== undefined ? round(level - sign * stopDistance) : current.stopLevel),
+      profitLevel: request.profitLevel ?? (profitDistance !== undefined ? round(level + sign * profitDistance) : current.profitLevel)
+    };
+  }
+
+  private openPosition(request: CreatePositionRequest, level: number, dealReference: string, workingOrderId?: string): PaperPosition {
+    const position: PaperPosition = {
+      dealId: this.nextId(),
+      dealReference,
+      epic: request.epic,
+      direction: request.direction,
+      size: request.size,
+      level,
+      createdAt: this.now(),
+      guaranteedStop: !!request.guaranteedStop,
+      trailingStop: !!request.trailingStop,
+      ...this.resolveStops(request.direction, level, request.size, request),
+      stopDistance: request.trailingStop ? request.stopDistance : undefined,
+      workingOrderId
+    };
+    this.positions.set(position.dealId, position);
+    return position;
+  }
+
+  // Close a position at the given level and book the realized P&L
+  private settle(position: PaperPosition, level: number, source: ActivitySource): string {
+    const dealReference = `p_${this.nextId()}`;
+    const profitLoss = this.getProfitLoss(position, level);
+    const date = toApiDate(this.now());
+
+    this.positions.delete(position.dealId);
+    this.hooks.adjustCash(profitLoss);
+    this.confirm({ ...position, level }, dealReference, 'CLOSED', 'FULLY_CLOSED');
+    this.record('POSITION', 'ACCEPTED', source, position, CLOSE_DESCRIPTIONS[source] || 'Position closed', { level, profitLoss });
+    this.transactions.push({
+      reference: dealReference,
+      transactionType: 'TRADE',
+      transactionId: this.nextId(),
+      date,
+      dateUTC: date,
+      openLevel: String(position.level),
+      closeLevel: String(level),
+      size: String(position.size),
+      currency: this.hooks.getMarket(position.epic).currency,
+      cash: String(profitLoss),
+      pnl: String(profitLoss)
+    });
+    this.emit('closed', position, level, profitLoss, source);
+    return dealReference;
+  }
+
+  // LIMIT orders trigger at their level or better, STOP orders at their level or worse
+  private isTriggered(order: PaperWorkingOrder): boolean {
+    const { bid, offer } = this.hooks.getMarket(order.epic);
+    const beyond = ((order.direction === 'BUY' ? offer : bid) - order.level) * this.sign(order.direction);
+    return order.type === 'LIMIT' ? beyond <= 0 : beyond >= 0;
+  }
+
+  // Fill a triggered working order at the market price
+  private fill(order: PaperWorkingOrder): void {
+    const { bid, offer } = this.hooks.getMarket(order.epic);
+    const level = order.direction === 'BUY' ? offer : bid;
+    this.workingOrders.delete(order.dealId);
+
+    if (this.checkMargin(order.epic, order.size, level)) {
+      this.record('WORKING_ORDER', 'REJECTED', 'SYSTEM', order, 'Working order rejected: insufficient funds');
+      return;
+    }
+
+    const position = this.openPosition(order, level, order.dealReference, order.dealId);
+    this.record('WORKING_ORDER', 'EXECUTED', 'SYSTEM', order, 'Working order filled', { level });
+    this.record('POSITION', 'ACCEPTED', 'SYSTEM', position, 'Position opened');
+    this.emit('filled', order, position);
+  }
+
+  private record(
+    type: ActivityType,
+    status: DealStatus,
+    source: ActivitySource,
+    deal: { dealId: string; epic: string; direction: Direction; size: number; level: number },
+    description: string,
+    details: Record<string, unknown> = {}
+  ): void {
+    const date = toApiDate(this.now());
+    this.activities.push({
+      epic: deal.epic,
+      dealId: deal.dealId,
+      status,
+      type,
+      source,
+      date,
+      dateUTC: date,
+      description,
+      details: { direction: deal.direction, size: deal.size, level: deal.level, ...details }
+    });
+  }
+
+  private confirm(
+    deal: { dealId: string; epic: string; direction: Direction; size: number; level: number; guaranteedStop: boolean; trailingStop: boolean },
+    dealReference: string,
+    status: string,
+    affectedStatus: string
+  ): void {
+    this.confirmations.set(dealReference, {
+      date: toApiDate(this.now()),
+      status,
+      dealStatus: 'ACCEPTED',
+      epic: deal.epic,
+      dealReference,
+      dealId: deal.dealId,
+      affectedDeals: [{ dealId: deal.dealId, status: affectedStatus }],
+      level: deal.level,
+      size: deal.size,
+      direction: deal.direction,
+      guaranteedStop: deal.guaranteedStop,
+      trailingStop: deal.trailingStop
+    });
+  }
+
+  private reject(dealReference: string, epic: string, direction: Direction, size: number, reason: string): string {
+    this.confirmations.set(dealReference, {
+      date: toApiDate(this.now()),
+      status: 'REJECTED',
+      dealStatus: 'REJECTED',
+      epic,
+      dealReference,
+      dealId: '',
+      affectedDeals: [],
+      level: 0,
+      size,
+      direction,
+      guaranteedStop: false,
+      trailingStop: false,
+      reason
+    });
+    return dealReference;
+  }
+
+  private filterByDate<T extends { dateUTC: string }>(entries: T[], params: { from?: string; to?: string; lastPeriod?: string | number }): T[] {
+    const from = params.lastPeriod
+      ? this.now() - Number(params.lastPeriod) * 1000
+      : params.from ? parseApiTime(params.from).getTime() : -Infinity;
+    const to = params.to ? parseApiTime(params.to).getTime() : Infinity;
+    return entries.filter(entry => {
+      const time = parseApiTime(entry.dateUTC).getTime();
+      return time >= from && time <= to;
+    });
+  }
+
+  private toPositionResponse(position: PaperPosition): PositionResponse {
+    const market = this.hooks.getMarket(position.epic);
+    return {
+      position: {
+        contractSize: market.market.lotSize,
+        createdDate: toApiDate(position.createdAt),
+        createdDateUTC: toApiDate(position.createdAt),
+        dealId: position.dealId,
+        dealReference: position.dealReference,
+        workingOrderId: position.workingOrderId,
+        size: position.size,
+        leverage: Math.round(100 / market.marginFactor),
+        upl: this.getProfitLoss(position),
+        direction: position.direction,
+        level: position.level,
+        currency: market.currency,
+        guaranteedStop: position.guaranteedStop,
+        trailingStop: position.trailingStop,
+        stopLevel: position.stopLevel,
+        profitLevel: position.profitLevel
+      },
+      market: market.market
+    };
+  }
+
+  private toWorkingOrderResponse(order: PaperWorkingOrder): WorkingOrderResponse {
+    const market = this.hooks.getMarket(order.epic);
+    return {
+      workingOrderData: {
+        dealId: order.dealId,
+        direction: order.direction,
+        epic: order.epic,
+        orderType: order.type,
+        orderSize: order.size,
+        orderLevel: order.level,
+        leverage: Math.round(100 / market.marginFactor),
+        timeInForce: order.goodTillDate ? 'GOOD_TILL_DATE' : 'GOOD_TILL_CANCELLED',
+        goodTillDate: order.goodTillDate,
+        guaranteedStop: order.guaranteedStop,
+        trailingStop: order.trailingStop,
+        currencyCode: market.currency,
+        createdDate: toApiDate(order.createdAt),
+        createdDateUTC: toApiDate(order.createdAt),
+        stopLevel: order.stopLevel,
+        stopDistance: order.stopDistance,
+        profitLevel: order.profitLevel,
+        profitDistance: order.profitDistance
+      },
+      marketData: market.market
+    };
+  }
+}
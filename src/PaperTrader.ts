@@ -0,0 +1,216 @@
+import { CapitalWebSocket } from './CapitalWebSocket';
+import { NotFoundError } from './errors';
+import { PaperBook, PaperMarket, marketFromDetails } from './PaperBook';
+import {
+  ActivityHistoryResponse,
+  Balance,
+  CreatePositionRequest,
+  CreatePositionResponse,
+  CreateWorkingOrderRequest,
+  DealConfirmation,
+  MarketDetailsResponse,
+  PaperTradingConfig,
+  PositionResponse,
+  PositionsResponse,
+  QuoteData,
+  TransactionHistoryResponse,
+  UpdatePositionRequest,
+  UpdateWorkingOrderRequest,
+  WorkingOrdersResponse
+} from './types';
+
+export const DEFAULT_PAPER_TRADING_CONFIG: Required<PaperTradingConfig> = {
+  balance: 10000,
+  subscribeQuotes: true
+};
+
+interface PricedMarket {
+  details: MarketDetailsResponse;
+  bid: number;
+  offer: number;
+  // Prices come from the stream rather than market details
+  streaming: boolean;
+}
+
+/**
+ * Simulated trading behind `paperTrading` mode: deals go to a local `PaperBook` instead
+ * of the API, in the same request and response shapes.
+ *
+ * A market is priced from its market details when first traded and from then on by the
+ * `quote` events of the attached WebSocket, which is subscribed to every traded epic.
+ * While no quotes arrive, prices are refreshed from market details before each deal.
+ */
+export class PaperTrader {
+  readonly book: PaperBook;
+  private readonly fetchMarketDetails: (epic: string) => Promise<MarketDetailsResponse>;
+  private readonly config: Required<PaperTradingConfig>;
+  private cash: number;
+  private markets = new Map<string, PricedMarket>();
+  private webSocket?: CapitalWebSocket;
+
+  private readonly onQuote = (quote: QuoteData) => this.updatePrice(quote.epic, quote.bid, quote.ofr, true);
+  private readonly onConnect = () => this.subscribe(Array.from(this.markets.keys()));
+  private readonly onDisconnect = () => this.markets.forEach(market => {
+    market.streaming = false;
+  });
+
+  constructor(fetchMarketDetails: (epic: string) => Promise<MarketDetailsResponse>, config: PaperTradingConfig = {}) {
+    this.fetchMarketDetails = fetchMarketDetails;
+    this.config = { ...DEFAULT_PAPER_TRADING_CONFIG, ...config };
+    this.cash = this.config.balance;
+    this.book = new PaperBook({
+      getMarket: epic => this.toPaperMarket(epic),
+      getCash: () => this.cash,
+      adjustCash: amount => {
+        this.cash = Math.round((this.cash + amount) * 1e8) / 1e8;
+      }
+    });
+  }
+
+  // Price traded markets from this connection's quotes; replaces any earlier connection
+  attach(webSocket?: CapitalWebSocket): void {
+    if (this.webSocket) {
+      this.webSocket.off('quote', this.onQuote);
+      this.webSocket.off('connect', this.onConnect);
+      this.webSocket.off('disconnect', this.onDisconnect);
+      this.onDisconnect();
+    }
+
+    this.webSocket = webSocket;
+    if (webSocket) {
+      webSocket.on('quote', this.onQuote);
+      webSocket.on('connect', this.onConnect);
+      webSocket.on('disconnect', this.onDisconnect);
+      this.subscribe(Array.from(this.markets.keys()));
+    }
+  }
+
+  getBalance(): Balance {
+    return this.book.getBalance();
+  }
+
+  // Positions
+
+  async getAllPositions(): Promise<PositionsResponse> {
+    return { positions: this.book.getPositions() };
+  }
+
+  async getPosition(dealId: string): Promise<PositionResponse> {
+    return this.book.getPosition(dealId);
+  }
+
+  async createPosition(request: CreatePositionRequest): Promise<CreatePositionResponse> {
+    await this.refresh(request.epic);
+    return { dealReference: this.book.createPosition(request) };
+  }
+
+  async updatePosition(dealId: string, request: UpdatePositionRequest): Promise<CreatePositionResponse> {
+    await this.refresh(this.book.getPosition(dealId).market.epic);
+    return { dealReference: this.book.updatePosition(dealId, request) };
+  }
+
+  async closePosition(dealId: string): Promise<CreatePositionResponse> {
+    await this.refresh(this.book.getPosition(dealId).market.epic);
+    return { dealReference: this.book.closePosition(dealId) };
+  }
+
+  // Working orders
+
+  async getAllWorkingOrders(): Promise<WorkingOrdersResponse> {
+    return { workingOrders: this.book.getWorkingOrders() };
+  }
+
+  async createWorkingOrder(request: CreateWorkingOrderRequest): Promise<CreatePositionResponse> {
+    await this.refresh(request.epic);
+    return { dealReference: this.book.createWorkingOrder(request) };
+  }
+
+  async updateWorkingOrder(dealId: string, request: UpdateWorkingOrderRequest): Promise<CreatePositionResponse> {
+    await this.refresh(this.book.getWorkingOrder(dealId).workingOrderData.epic);
+    return { dealReference: this.book.updateWorkingOrder(dealId, request) };
+  }
+
+  async deleteWorkingOrder(dealId: string): Promise<CreatePositionResponse> {
+    return { dealReference: this.book.deleteWorkingOrder(dealId) };
+  }
+
+  async getDealConfirmation(dealReference: string): Promise<DealConfirmation> {
+    return this.book.getConfirmation(dealReference);
+  }
+
+  // History
+
+  async getActivityHistory(params: { from?: string; to?: string; lastPeriod?: number; dealId?: string } = {}): Promise<ActivityHistoryResponse> {
+    return { activities: this.book.getActivities(params) };
+  }
+
+  async getTransactionHistory(params: { from?: string; to?: string; lastPeriod?: number; type?: string } = {}): Promise<TransactionHistoryResponse> {
+    return { transactions: this.book.getTransactions(params) };
+  }
+
+  // Load the market, or re-price it from market details while it is not streaming
+  private async refresh(epic: string): Promise<void> {
+    const known = this.markets.get(epic);
+    if (known && known.streaming) {
+      return;
+    }
+
+    const details = await this.fetchMarketDetails(epic);
+    const market = this.markets.get(epic);
+    if (market) {
+      market.details = details;
+    } else {
+      this.markets.set(epic, { details, bid: details.snapshot.bid, offer: details.snapshot.offer, streaming: false });
+      this.subscribe([epic]);
+    }
+    // A quote may have arrived while the details were loading
+    if (!this.markets.get(epic)!.streaming) {
+      this.updatePrice(epic, details.snapshot.bid, details.snapshot.offer, false);
+    }
+  }
+
+  private updatePrice(epic: string, bid: number, offer: number, streaming: boolean): void {
+    const market = this.markets.get(epic);
+    if (!market) {
+      return;
+    }
+    market.bid = bid;
+    market.offer = offer;
+    market.streaming = market.streaming || streaming;
+    this.book.match(epic);
+  }
+
+  private subscribe(epics: string[]): void {
+    const webSocket = this.webSocket;
+    if (!webSocket || !this.config.subscribeQuotes || !webSocket.isConnectedToServer()) {
+      return;
+    }
+
+    // Epics streamed only as OHLC bars still need their quotes
+    const missing = epics.filter(epic => !webSocket.hasMarketDataSubscription(epic));
+    if (missing.length === 0) {
+      return;
+    }
+    // Markets that cannot be streamed, e.g. beyond the instrument limit, keep being priced from market details
+    webSocket.subscribeToMarketData(missing).catch(() => undefined);
+  }
+
+  private toPaperMarket(epic: string): PaperMarket {
+    const market = this.markets.get(epic);
+    if (!market) {
+      throw new NotFoundError('API Error (404): error.not-found.epic', { status: 404, errorCode: 'error.not-found.epic' });
+    }
+
+    const { instrument, dealingRules, snapshot } = market.details;
+    return {
+      epic,
+      bid: market.bid,
+      offer: market.offer,
+      currency: instrument.currency,
+      marginFactor: instrument.marginFactor,
+      minDealSize: dealingRules.minDealSize?.value ?? 0,
+      tradeable: snapshot.marketStatus === 'TRADEABLE',
+      market: marketFromDetails({ ...market.details, snapshot: { ...snapshot, bid: market.bid, offer: market.offer } })
+    };
+  }
+}
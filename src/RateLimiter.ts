@@ -0,0 +1,107 @@
+import { RateLimitCategory, RateLimitConfig, RateLimitRule } from './types';
+
+// Published Capital.com limits
+export const DEFAULT_RATE_LIMITS: Record<RateLimitCategory, RateLimitRule> = {
+  general: { requests: 10, interval: 1000 },
+  trading: { requests: 1, interval: 100 },
+  session: { requests: 1, interval: 1000 }
+};
+
+/**
+ * Token bucket that queues callers until a token is available instead of failing.
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillRate: number; // tokens per millisecond
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Array<() => void> = [];
+  private drainTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(rule: RateLimitRule) {
+    if (rule.requests <= 0 || rule.interval <= 0) {
+      throw new Error('Rate limit requests and interval must be positive');
+    }
+    this.capacity = rule.requests;
+    this.refillRate = rule.requests / rule.interval;
+    this.tokens = rule.requests;
+    this.lastRefill = Date.now();
+  }
+
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillRate);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.drainTimer) {
+      return;
+    }
+
+    this.refill();
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      (this.queue.shift() as () => void)();
+    }
+
+    if (this.queue.length > 0) {
+      const wait = Math.ceil((1 - this.tokens) / this.refillRate);
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = undefined;
+        this.drain();
+      }, wait);
+    }
+  }
+}
+
+/**
+ * Schedules requests through one token bucket per endpoint class.
+ * Session and trading requests also count towards the general limit.
+ */
+export class RateLimiter {
+  private buckets: Record<RateLimitCategory, TokenBucket>;
+
+  constructor(config: RateLimitConfig = {}) {
+    this.buckets = {
+      general: new TokenBucket(config.general || DEFAULT_RATE_LIMITS.general),
+      trading: new TokenBucket(config.trading || DEFAULT_RATE_LIMITS.trading),
+      session: new TokenBucket(config.session || DEFAULT_RATE_LIMITS.session)
+    };
+  }
+
+  static classify(method: string | undefined, url: string | undefined): RateLimitCategory {
+    const verb = (method || 'get').toUpperCase();
+    const path = (url || '').split('?')[0].replace(/\/+$/, '');
+
+    if (verb === 'POST' && path.endsWith('/api/v1/session')) {
+      return 'session';
+    }
+    if (verb === 'POST' && (path.endsWith('/api/v1/positions') || path.endsWith('/api/v1/workingorders'))) {
+      return 'trading';
+    }
+    return 'general';
+  }
+
+  async acquire(category: RateLimitCategory): Promise<void> {
+    if (category !== 'general') {
+      await this.buckets[category].acquire();
+    }
+    await this.buckets.general.acquire();
+  }
+
+  getQueueLength(category: RateLimitCategory): number {
+    return this.buckets[category].getQueueLength();
+  }
+}
@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events';
+import { SessionKeepAliveConfig, SessionLostReason } from './types';
+
+export const DEFAULT_SESSION_TIMEOUT = 600000;
+
+/**
+ * Tracks the age of the current session and keeps it alive while idle.
+ *
+ * Events:
+ * - `sessionCreated` / `sessionRenewed` - a session was established (renewed = re-created after expiry)
+ * - `sessionExpiring` - no activity for `sessionTimeout - expiryWarning` ms
+ * - `sessionLost` - the session expired, was rejected by the server or could not be renewed
+ */
+export class SessionManager extends EventEmitter {
+  private readonly ping: () => Promise<unknown>;
+  private readonly tracking: boolean;
+  private readonly keepAlive: boolean;
+  private readonly sessionTimeout: number;
+  private readonly pingInterval: number;
+  private readonly expiryWarning: number;
+  private active = false;
+  private createdAt?: number;
+  private lastActivity?: number;
+  private pingTimer?: ReturnType<typeof setTimeout>;
+  private expiringTimer?: ReturnType<typeof setTimeout>;
+  private expiryTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(ping: () => Promise<unknown>, config?: boolean | SessionKeepAliveConfig) {
+    super();
+    const options: SessionKeepAliveConfig = typeof config === 'object' ? config : { enabled: !!config };
+
+    this.ping = ping;
+    // Without configuration only lifecycle events are emitted and no timers are started
+    this.tracking = !!config;
+    this.keepAlive = options.enabled ?? true;
+    this.sessionTimeout = options.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT;
+    this.pingInterval = options.pingInterval ?? this.sessionTimeout / 2;
+    this.expiryWarning = options.expiryWarning ?? 60000;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getSessionAge(): number | undefined {
+    return this.createdAt !== undefined ? Date.now() - this.createdAt : undefined;
+  }
+
+  getIdleTime(): number | undefined {
+    return this.lastActivity !== undefined ? Date.now() - this.lastActivity : undefined;
+  }
+
+  // Called when a session has been established
+  start(renewed = false): void {
+    this.active = true;
+    this.createdAt = Date.now();
+    this.recordActivity();
+    this.emit(renewed ? 'sessionRenewed' : 'sessionCreated', { timestamp: this.createdAt });
+  }
+
+  // Called after every successful authenticated request
+  recordActivity(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.lastActivity = Date.now();
+    this.schedule();
+  }
+
+  lost(reason: SessionLostReason): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.stop();
+    this.emit('sessionLost', { timestamp: Date.now(), reason });
+  }
+
+  stop(): void {
+    this.active = false;
+    this.createdAt = undefined;
+    this.lastActivity = undefined;
+    this.clearTimers();
+  }
+
+  private schedule(): void {
+    this.clearTimers();
+    if (!this.tracking) {
+      return;
+    }
+
+    if (this.keepAlive) {
+      this.schedulePing(this.pingInterval);
+    }
+
+    const expiresAt = (this.lastActivity as number) + this.sessionTimeout;
+    this.expiringTimer = setTimeout(() => {
+      this.emit('sessionExpiring', { timestamp: Date.now(), expiresAt });
+    }, Math.max(this.sessionTimeout - this.expiryWarning, 0));
+
+    this.expiryTimer = setTimeout(() => {
+      this.lost('timeout');
+    }, this.sessionTimeout);
+  }
+
+  private schedulePing(delay: number): void {
+    this.pingTimer = setTimeout(async () => {
+      this.pingTimer = undefined;
+      try {
+        // A successful ping is recorded as activity, which reschedules everything
+        await this.ping();
+      } catch {
+        // Keep trying until the session is either renewed or lost
+        if (this.active && !this.pingTimer) {
+          this.schedulePing(this.pingInterval);
+        }
+      }
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.pingTimer) {
+      clearTimeout(this.pingTimer);
+      this.pingTimer = undefined;
+    }
+    if (this.expiringTimer) {
+      clearTimeout(this.expiringTimer);
+      this.expiringTimer = undefined;
+    }
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+}
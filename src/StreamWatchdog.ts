@@ -0,0 +1,150 @@
+import { HeartbeatConfig, StaleEvent } from './types';
+
+export const DEFAULT_HEARTBEAT_CONFIG: Required<Omit<HeartbeatConfig, 'isMarketOpen'>> = {
+  checkInterval: 5000,
+  pingInterval: 60000,
+  pongTimeout: 10000,
+  staleAfter: 60000,
+  reconnectOnStale: false
+};
+
+export interface StreamWatchdogHooks {
+  // Send a ping and return its correlationId
+  ping: () => string;
+  // Epics expected to receive quotes
+  getEpics: () => string[];
+  onStale: (event: StaleEvent) => void;
+  reconnect: () => void;
+}
+
+/**
+ * Detects a stream that went quiet without closing: pings the server and expects the
+ * matching pong within `pongTimeout`, and reports epics without quotes for `staleAfter`
+ * while their market is open. Each epic is reported once until quotes arrive again.
+ */
+export class StreamWatchdog {
+  private readonly config: Required<Omit<HeartbeatConfig, 'isMarketOpen'>>;
+  private readonly isMarketOpen: (epic: string) => boolean | Promise<boolean>;
+  private readonly hooks: StreamWatchdogHooks;
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+  private startedAt = 0;
+  private lastPingAt = 0;
+  private pendingPing?: { correlationId: string; sentAt: number };
+  private lastUpdate = new Map<string, number>();
+  // Epics already reported, until their quotes resume
+  private stale = new Set<string>();
+
+  constructor(config: HeartbeatConfig, hooks: StreamWatchdogHooks) {
+    const { isMarketOpen, ...rest } = config;
+    this.config = { ...DEFAULT_HEARTBEAT_CONFIG, ...rest };
+    this.isMarketOpen = isMarketOpen || (() => true);
+    this.hooks = hooks;
+  }
+
+  start(): void {
+    this.stop();
+    this.startedAt = Date.now();
+    this.lastPingAt = this.startedAt;
+    this.stale.clear();
+    this.timer = setInterval(() => {
+      this.check().catch(() => undefined);
+    }, this.config.checkInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.pendingPing = undefined;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  recordQuote(epic: string): void {
+    this.lastUpdate.set(epic, Date.now());
+    this.stale.delete(epic);
+  }
+
+  recordPong(correlationId?: string): void {
+    if (this.pendingPing && this.pendingPing.correlationId === correlationId) {
+      this.pendingPing = undefined;
+    }
+  }
+
+  getLastUpdate(epic: string): number | undefined {
+    return this.lastUpdate.get(epic);
+  }
+
+  async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+    try {
+      const now = Date.now();
+      if (this.checkPong(now)) {
+        return;
+      }
+
+      const silent = this.hooks.getEpics().filter(epic => {
+        // Epics never quoted on this connection count from when it opened
+        const since = Math.max(this.lastUpdate.get(epic) ?? 0, this.startedAt);
+        return !this.stale.has(epic) && now - since >= this.config.staleAfter;
+      });
+
+      let reported = false;
+      for (const epic of silent) {
+        if (!(await this.marketIsOpen(epic)) || !this.isRunning()) {
+          continue;
+        }
+        const lastUpdate = this.lastUpdate.get(epic);
+        this.stale.add(epic);
+        this.hooks.onStale({ reason: 'quotes', epic, lastUpdate, silentFor: now - Math.max(lastUpdate ?? 0, this.startedAt) });
+        reported = true;
+      }
+
+      if (reported && this.config.reconnectOnStale && this.isRunning()) {
+        this.hooks.reconnect();
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  // Returns true when the connection was found dead
+  private checkPong(now: number): boolean {
+    if (this.pendingPing) {
+      const silentFor = now - this.pendingPing.sentAt;
+      if (silentFor >= this.config.pongTimeout) {
+        this.pendingPing = undefined;
+        this.hooks.onStale({ reason: 'pong', silentFor });
+        this.hooks.reconnect();
+        return true;
+      }
+      return false;
+    }
+
+    if (now - this.lastPingAt >= this.config.pingInterval) {
+      this.lastPingAt = now;
+      try {
+        this.pendingPing = { correlationId: this.hooks.ping(), sentAt: now };
+      } catch {
+        // Not connected; the next check tries again
+      }
+    }
+    return false;
+  }
+
+  private async marketIsOpen(epic: string): Promise<boolean> {
+    try {
+      return await this.isMarketOpen(epic);
+    } catch {
+      // Without market hours, silence is still worth reporting
+      return true;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { Resolution } from './types';
+
+export type OHLCType = 'classic' | 'heikin-ashi';
+
+export interface OHLCSubscriptionGroup {
+  epics: string[];
+  resolution: Resolution;
+  type: OHLCType;
+}
+
+// Streaming sessions accept at most 40 instruments
+export const MAX_STREAMING_INSTRUMENTS = 40;
+
+/**
+ * Reference-counted streaming subscriptions per epic. Adding returns the epics that
+ * became active (and must be subscribed); removing returns those that are no longer used.
+ */
+export class SubscriptionTracker {
+  private marketData = new Map<string, number>();
+  // Keyed by `${type}|${resolution}|${epic}`
+  private ohlc = new Map<string, number>();
+
+  // Distinct epics across quote and OHLC subscriptions
+  getInstruments(): string[] {
+    const epics = new Set(this.marketData.keys());
+    this.ohlc.forEach((_, key) => epics.add(key.split('|')[2]));
+    return Array.from(epics);
+  }
+
+  isTracked(epic: string): boolean {
+    return this.getInstruments().includes(epic);
+  }
+
+  hasMarketData(epic: string): boolean {
+    return this.marketData.has(epic);
+  }
+
+  hasOHLC(epic: string, resolution: Resolution, type: OHLCType): boolean {
+    return this.ohlc.has(`${type}|${resolution}|${epic}`);
+  }
+
+  addMarketData(epics: string[]): string[] {
+    return this.add(this.marketData, epics, epic => epic);
+  }
+
+  removeMarketData(epics: string[]): string[] {
+    return this.remove(this.marketData, epics, epic => epic);
+  }
+
+  addOHLC(epics: string[], resolution: Resolution, type: OHLCType): string[] {
+    return this.add(this.ohlc, epics, epic => `${type}|${resolution}|${epic}`);
+  }
+
+  removeOHLC(epics: string[], resolution: Resolution, type: OHLCType): string[] {
+    return this.remove(this.ohlc, epics, epic => `${type}|${resolution}|${epic}`);
+  }
+
+  getMarketDataEpics(): string[] {
+    return Array.from(this.marketData.keys());
+  }
+
+  getOHLCGroups(): OHLCSubscriptionGroup[] {
+    const groups = new Map<string, OHLCSubscriptionGroup>();
+    this.ohlc.forEach((_, key) => {
+      const [type, resolution, epic] = key.split('|');
+      const groupKey = `${type}|${resolution}`;
+      const group = groups.get(groupKey) || { epics: [], resolution: resolution as Resolution, type: type as OHLCType };
+      group.epics.push(epic);
+      groups.set(groupKey, group);
+    });
+    return Array.from(groups.values());
+  }
+
+  clear(): void {
+    this.marketData.clear();
+    this.ohlc.clear();
+  }
+
+  private add(refs: Map<string, number>, epics: string[], toKey: (epic: string) => string): string[] {
+    const added: string[] = [];
+    Array.from(new Set(epics)).forEach(epic => {
+      const key = toKey(epic);
+      const count = refs.get(key) || 0;
+      refs.set(key, count + 1);
+      if (count === 0) {
+        added.push(epic);
+      }
+    });
+    return added;
+  }
+
+  private remove(refs: Map<string, number>, epics: string[], toKey: (epic: string) => string): string[] {
+    const removed: string[] = [];
+    Array.from(new Set(epics)).forEach(epic => {
+      const key = toKey(epic);
+      const count = refs.get(key);
+      if (count === undefined) {
+        return;
+      }
+      if (count <= 1) {
+        refs.delete(key);
+        removed.push(epic);
+      } else {
+        refs.set(key, count - 1);
+      }
+    });
+    return removed;
+  }
+}
@@ -0,0 +1,127 @@
+import { EventEmitter } from 'events';
+import { CapitalWebSocket } from './CapitalWebSocket';
+import { selectPrice } from './candles';
+import { Candle, CandleResolution, PriceSide, QuoteData, TickAggregatorConfig, TickBarSpec } from './types';
+
+function toResolution(bar: TickBarSpec): CandleResolution {
+  switch (bar.type) {
+    case 'time':
+      return `${bar.interval / 1000}s` as CandleResolution;
+    case 'tick':
+      return `${bar.count}t` as CandleResolution;
+    case 'range':
+      return `${bar.range}r` as CandleResolution;
+  }
+}
+
+function validateBarSpec(bar: TickBarSpec): void {
+  const size = bar.type === 'time' ? bar.interval : bar.type === 'tick' ? bar.count : bar.range;
+  if (!(size > 0) || (bar.type === 'tick' && !Number.isInteger(size))) {
+    throw new Error(`Invalid ${bar.type} bar size: ${size}`);
+  }
+}
+
+/**
+ * Builds custom bars from `quote` events: fixed time intervals, tick counts or price ranges.
+ * Bars only close when a quote arrives that belongs to the next bar (or the count/range is
+ * reached); call `flush()` to close the in-progress bar explicitly.
+ *
+ * Events:
+ * - `barUpdate` - the in-progress bar changed (or a new one started)
+ * - `barClose` - a bar was completed
+ */
+export class TickAggregator extends EventEmitter {
+  private readonly epic: string;
+  private readonly bar: TickBarSpec;
+  private readonly side: PriceSide;
+  private readonly resolution: CandleResolution;
+  private current?: Candle;
+  private webSocket?: CapitalWebSocket;
+
+  constructor(config: TickAggregatorConfig) {
+    super();
+    validateBarSpec(config.bar);
+    this.epic = config.epic;
+    this.bar = config.bar;
+    this.side = config.side || 'bid';
+    this.resolution = toResolution(config.bar);
+  }
+
+  getResolution(): CandleResolution {
+    return this.resolution;
+  }
+
+  getCurrentBar(): Candle | undefined {
+    return this.current ? { ...this.current } : undefined;
+  }
+
+  // Aggregate the quotes of a connection; subscribing to the epic is left to the caller
+  attach(webSocket: CapitalWebSocket): void {
+    this.detach();
+    this.webSocket = webSocket;
+    webSocket.on('quote', this.onQuote);
+  }
+
+  detach(): void {
+    this.webSocket?.off('quote', this.onQuote);
+    this.webSocket = undefined;
+  }
+
+  addQuote(quote: QuoteData): void {
+    if (quote.epic !== this.epic) {
+      return;
+    }
+
+    const price = selectPrice({ bid: quote.bid, ask: quote.ofr }, this.side);
+    const time = this.bar.type === 'time'
+      ? Math.floor(quote.timestamp / this.bar.interval) * this.bar.interval
+      : quote.timestamp;
+
+    if (this.current && this.bar.type === 'time' && time !== this.current.time) {
+      // Late quotes for an earlier interval are dropped
+      if (time < this.current.time) {
+        return;
+      }
+      this.flush();
+    }
+
+    if (!this.current) {
+      this.current = {
+        epic: this.epic,
+        resolution: this.resolution,
+        side: this.side,
+        time,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        ticks: 1
+      };
+    } else {
+      this.current.high = Math.max(this.current.high, price);
+      this.current.low = Math.min(this.current.low, price);
+      this.current.close = price;
+      this.current.ticks = (this.current.ticks || 0) + 1;
+    }
+    this.emit('barUpdate', { ...this.current });
+
+    if ((this.bar.type === 'tick' && this.current.ticks! >= this.bar.count) ||
+        (this.bar.type === 'range' && this.current.high - this.current.low >= this.bar.range - 1e-9)) {
+      this.flush();
+    }
+  }
+
+  // Close the in-progress bar
+  flush(): Candle | undefined {
+    const bar = this.current;
+    this.current = undefined;
+    if (bar) {
+      this.emit('barClose', bar);
+    }
+    return bar;
+  }
+
+  private onQuote = (quote: QuoteData): void => {
+    this.addQuote(quote);
+  };
+}
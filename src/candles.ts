@@ -0,0 +1,103 @@
+import { RESOLUTION_MS, parseApiTime } from './history';
+import {
+  BidAskPrice,
+  Candle,
+  CandleOptions,
+  HistoricalPricesResponse,
+  OHLCData,
+  PriceSide,
+  PriceSnapshot,
+  PriceTick,
+  Resolution
+} from './types';
+
+export function selectPrice(price: BidAskPrice, side: PriceSide): number {
+  switch (side) {
+    case 'bid':
+      return price.bid;
+    case 'ask':
+      return price.ask;
+    case 'mid':
+      return (price.bid + price.ask) / 2;
+    default:
+      throw new Error(`Invalid price side: ${JSON.stringify(side)}`);
+  }
+}
+
+export function priceSnapshotToCandle(snapshot: PriceSnapshot, options: CandleOptions): Candle {
+  const side = options.side || 'bid';
+  return {
+    epic: options.epic,
+    resolution: options.resolution,
+    side,
+    time: parseApiTime(snapshot.snapshotTimeUTC).getTime(),
+    open: selectPrice(snapshot.openPrice, side),
+    high: selectPrice(snapshot.highPrice, side),
+    low: selectPrice(snapshot.lowPrice, side),
+    close: selectPrice(snapshot.closePrice, side),
+    volume: snapshot.lastTradedVolume
+  };
+}
+
+/**
+ * Replay a bar as four ticks spread over its duration: open, the two extremes and close.
+ * The extreme against the bar's direction comes first, so a bar that reaches both a stop
+ * and a profit level hits the stop.
+ */
+export function priceSnapshotToTicks(snapshot: PriceSnapshot, resolution: Resolution): PriceTick[] {
+  const start = parseApiTime(snapshot.snapshotTimeUTC).getTime();
+  const step = RESOLUTION_MS[resolution] / 4;
+  const rising = snapshot.closePrice.bid >= snapshot.openPrice.bid;
+  const [first, second] = rising ? [snapshot.lowPrice, snapshot.highPrice] : [snapshot.highPrice, snapshot.lowPrice];
+  return [snapshot.openPrice, first, second, snapshot.closePrice].map((price, index) => ({
+    bid: price.bid,
+    offer: Math.max(price.ask, price.bid),
+    time: start + step * index
+  }));
+}
+
+export function historicalPricesToCandles(response: HistoricalPricesResponse, options: CandleOptions): Candle[] {
+  return response.prices
+    .map(snapshot => priceSnapshotToCandle(snapshot, options))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Convert a streamed `ohlc` event. Each event carries a single side (`priceType` bid or ask);
+ * use `toMidCandle` to combine both sides.
+ */
+export function ohlcToCandle(data: OHLCData): Candle {
+  const side = String(data.priceType).toLowerCase();
+  if (side !== 'bid' && side !== 'ask') {
+    throw new Error(`Invalid OHLC price type: ${JSON.stringify(data.priceType)}`);
+  }
+
+  return {
+    epic: data.epic,
+    resolution: data.resolution,
+    side,
+    time: data.t,
+    open: data.o,
+    high: data.h,
+    low: data.l,
+    close: data.c
+  };
+}
+
+export function toMidCandle(bid: Candle, ask: Candle): Candle {
+  if (bid.epic !== ask.epic || bid.resolution !== ask.resolution || bid.time !== ask.time) {
+    throw new Error(`Cannot combine candles of ${bid.epic} ${bid.resolution} at ${bid.time} and ${ask.epic} ${ask.resolution} at ${ask.time}`);
+  }
+
+  return {
+    epic: bid.epic,
+    resolution: bid.resolution,
+    side: 'mid',
+    time: bid.time,
+    open: (bid.open + ask.open) / 2,
+    high: (bid.high + ask.high) / 2,
+    low: (bid.low + ask.low) / 2,
+    close: (bid.close + ask.close) / 2,
+    ...(bid.volume !== undefined ? { volume: bid.volume } : {})
+  };
+}
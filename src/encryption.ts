@@ -0,0 +1,235 @@
+import * as crypto from 'crypto-js';
+
+export interface RSAPublicKey {
+  modulus: bigint;
+  exponent: bigint;
+  byteLength: number;
+}
+
+export type RandomBytesSource = (length: number) => Uint8Array;
+
+// Byte / base64 helpers (crypto-js keeps this working in both Node and the UMD build)
+function wordArrayToBytes(wordArray: crypto.lib.WordArray): Uint8Array {
+  const bytes = new Uint8Array(wordArray.sigBytes);
+  for (let i = 0; i < wordArray.sigBytes; i++) {
+    bytes[i] = (wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+}
+
+function bytesToWordArray(bytes: Uint8Array): crypto.lib.WordArray {
+  const words: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  return crypto.lib.WordArray.create(words, bytes.length);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return wordArrayToBytes(crypto.enc.Base64.parse(base64));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  return crypto.enc.Base64.stringify(bytesToWordArray(bytes));
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let result = BigInt(0);
+  for (let i = 0; i < bytes.length; i++) {
+    result = (result << BigInt(8)) | BigInt(bytes[i]);
+  }
+  return result;
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining & BigInt(0xff));
+    remaining >>= BigInt(8);
+  }
+  return bytes;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = BigInt(1);
+  let b = base % modulus;
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) {
+      result = (result * b) % modulus;
+    }
+    e >>= BigInt(1);
+    b = (b * b) % modulus;
+  }
+  return result;
+}
+
+// Minimal DER reader, enough for SubjectPublicKeyInfo and PKCS#1 RSAPublicKey
+interface DerElement {
+  tag: number;
+  content: Uint8Array;
+  next: number;
+}
+
+function readDerElement(bytes: Uint8Array, offset: number): DerElement {
+  if (offset + 2 > bytes.length) {
+    throw new Error('Invalid public key: unexpected end of data');
+  }
+
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let position = offset + 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4 || position + lengthBytes > bytes.length) {
+      throw new Error('Invalid public key: unsupported length encoding');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[position + i];
+    }
+    position += lengthBytes;
+  }
+
+  if (position + length > bytes.length) {
+    throw new Error('Invalid public key: element exceeds data length');
+  }
+
+  return {
+    tag,
+    content: bytes.subarray(position, position + length),
+    next: position + length
+  };
+}
+
+function readDerSequence(bytes: Uint8Array): DerElement[] {
+  const elements: DerElement[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const element = readDerElement(bytes, offset);
+    elements.push(element);
+    offset = element.next;
+  }
+  return elements;
+}
+
+const DER_INTEGER = 0x02;
+const DER_BIT_STRING = 0x03;
+const DER_SEQUENCE = 0x30;
+
+function parseRSAPublicKeySequence(content: Uint8Array): RSAPublicKey {
+  const [modulusElement, exponentElement] = readDerSequence(content);
+  if (modulusElement?.tag !== DER_INTEGER || exponentElement?.tag !== DER_INTEGER) {
+    throw new Error('Invalid public key: expected RSA modulus and exponent');
+  }
+
+  const modulus = bytesToBigInt(modulusElement.content);
+  const exponent = bytesToBigInt(exponentElement.content);
+  if (modulus <= BigInt(0) || exponent <= BigInt(0)) {
+    throw new Error('Invalid public key: modulus and exponent must be positive');
+  }
+
+  return {
+    modulus,
+    exponent,
+    byteLength: Math.ceil(modulus.toString(16).length / 2)
+  };
+}
+
+/**
+ * Parse an RSA public key as returned by `/api/v1/session/encryptionKey`.
+ * Accepts base64 (optionally PEM-wrapped) X.509 SubjectPublicKeyInfo or PKCS#1 RSAPublicKey.
+ */
+export function parseRSAPublicKey(encodedKey: string): RSAPublicKey {
+  const base64 = encodedKey
+    .replace(/-----(BEGIN|END)[^-]*-----/g, '')
+    .replace(/\s+/g, '');
+
+  if (!base64) {
+    throw new Error('Invalid public key: key is empty');
+  }
+
+  const outer = readDerElement(base64ToBytes(base64), 0);
+  if (outer.tag !== DER_SEQUENCE) {
+    throw new Error('Invalid public key: expected DER sequence');
+  }
+
+  const elements = readDerSequence(outer.content);
+
+  // PKCS#1 RSAPublicKey: SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+  if (elements[0]?.tag === DER_INTEGER) {
+    return parseRSAPublicKeySequence(outer.content);
+  }
+
+  // SubjectPublicKeyInfo: SEQUENCE { AlgorithmIdentifier, BIT STRING { RSAPublicKey } }
+  const bitString = elements[1];
+  if (elements[0]?.tag !== DER_SEQUENCE || bitString?.tag !== DER_BIT_STRING) {
+    throw new Error('Invalid public key: unsupported key structure');
+  }
+
+  // First byte of a BIT STRING is the number of unused bits
+  const inner = readDerElement(bitString.content.subarray(1), 0);
+  if (inner.tag !== DER_SEQUENCE) {
+    throw new Error('Invalid public key: expected RSA key sequence');
+  }
+
+  return parseRSAPublicKeySequence(inner.content);
+}
+
+function secureRandomBytes(length: number): Uint8Array {
+  return wordArrayToBytes(crypto.lib.WordArray.random(length));
+}
+
+/**
+ * RSAES-PKCS1-v1_5 encryption (RFC 8017 section 7.2.1).
+ * `randomBytes` is only meant to be overridden in tests.
+ */
+export function rsaEncryptPKCS1v15(
+  key: RSAPublicKey,
+  message: Uint8Array,
+  randomBytes: RandomBytesSource = secureRandomBytes
+): Uint8Array {
+  const k = key.byteLength;
+  if (message.length > k - 11) {
+    throw new Error(`Message too long for RSA key (${message.length} > ${k - 11} bytes)`);
+  }
+
+  // EM = 0x00 || 0x02 || PS || 0x00 || M, where PS is non-zero random padding
+  const paddingLength = k - message.length - 3;
+  const padding = new Uint8Array(paddingLength);
+  let filled = 0;
+  while (filled < paddingLength) {
+    const candidates = randomBytes(paddingLength - filled);
+    for (let i = 0; i < candidates.length && filled < paddingLength; i++) {
+      if (candidates[i] !== 0) {
+        padding[filled++] = candidates[i];
+      }
+    }
+  }
+
+  const encoded = new Uint8Array(k);
+  encoded[1] = 0x02;
+  encoded.set(padding, 2);
+  encoded.set(message, paddingLength + 3);
+
+  const cipher = modPow(bytesToBigInt(encoded), key.exponent, key.modulus);
+  return bigIntToBytes(cipher, k);
+}
+
+/**
+ * Encrypt a password the way Capital.com expects for `encryptedPassword: true`:
+ * base64(RSA(base64(password + '|' + timestamp))).
+ */
+export function encryptPassword(
+  encryptionKey: string,
+  timestamp: number,
+  password: string,
+  randomBytes?: RandomBytesSource
+): string {
+  const key = parseRSAPublicKey(encryptionKey);
+  const input = crypto.enc.Base64.stringify(crypto.enc.Utf8.parse(password + '|' + timestamp));
+  const message = wordArrayToBytes(crypto.enc.Latin1.parse(input));
+  return bytesToBase64(rsaEncryptPKCS1v15(key, message, randomBytes));
+}
@@ -0,0 +1,184 @@
+import { DealConfirmation, DealViolation } from './types';
+
+export interface CapitalApiErrorDetails {
+  status?: number;
+  errorCode?: string;
+  endpoint?: string;
+  method?: string;
+  requestId?: string;
+  responseData?: any;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by a Capital.com API call.
+ */
+export class CapitalApiError extends Error {
+  readonly status?: number;
+  readonly errorCode?: string;
+  readonly endpoint?: string;
+  readonly method?: string;
+  readonly requestId?: string;
+  readonly responseData?: any;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: CapitalApiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.errorCode = details.errorCode;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.requestId = details.requestId;
+    this.responseData = details.responseData;
+    this.cause = details.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// 401/403 and invalid or expired session tokens
+export class AuthenticationError extends CapitalApiError {}
+
+// 429 - `retryAfter` is in milliseconds when the server sent a Retry-After header
+export class RateLimitError extends CapitalApiError {
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: CapitalApiErrorDetails = {}, retryAfter?: number) {
+    super(message, details);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 400 - the request was rejected because of invalid parameters
+export class ValidationError extends CapitalApiError {}
+
+// Raised before sending when a deal request breaks the market's dealing rules
+export class DealValidationError extends ValidationError {
+  readonly violations: DealViolation[];
+
+  constructor(violations: DealViolation[], details: CapitalApiErrorDetails = {}) {
+    super(`Deal request violates dealing rules: ${violations.map(v => v.message).join('; ')}`, details);
+    this.violations = violations;
+  }
+}
+
+// 404 - unknown epic, deal, watchlist, ...
+export class NotFoundError extends CapitalApiError {}
+
+// No response received: timeouts, connection resets, DNS failures
+export class NetworkError extends CapitalApiError {}
+
+// The deal confirmation came back with dealStatus REJECTED
+export class DealRejectedError extends CapitalApiError {
+  readonly confirmation: DealConfirmation;
+
+  constructor(confirmation: DealConfirmation, details: CapitalApiErrorDetails = {}) {
+    super(`Deal ${confirmation.dealReference} was rejected (${confirmation.status || confirmation.dealStatus})`, details);
+    this.confirmation = confirmation;
+  }
+}
+
+// No deal confirmation became available within the polling timeout
+export class DealConfirmationTimeoutError extends CapitalApiError {
+  readonly dealReference: string;
+
+  constructor(dealReference: string, timeout: number, details: CapitalApiErrorDetails = {}) {
+    super(`No confirmation for deal ${dealReference} within ${timeout}ms`, details);
+    this.dealReference = dealReference;
+  }
+}
+
+// A streaming subscription was refused, timed out or lost its connection before being acknowledged
+export class SubscriptionError extends CapitalApiError {
+  readonly destination: string;
+  readonly correlationId: string;
+
+  constructor(message: string, destination: string, correlationId: string, details: CapitalApiErrorDetails = {}) {
+    super(message, { endpoint: destination, ...details });
+    this.destination = destination;
+    this.correlationId = correlationId;
+  }
+}
+
+// Subscribing would exceed the streaming instrument limit and spill-over is disabled
+export class SubscriptionLimitError extends CapitalApiError {
+  readonly epics: string[];
+  readonly limit: number;
+
+  constructor(epics: string[], limit: number, details: CapitalApiErrorDetails = {}) {
+    super(`Cannot subscribe to ${epics.join(', ')}: a streaming connection is limited to ${limit} instruments`, details);
+    this.epics = epics;
+    this.limit = limit;
+  }
+}
+
+function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+  return value !== undefined && value !== null ? String(value) : undefined;
+}
+
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Convert an axios (or any other) error into the matching `CapitalApiError` subclass.
+ */
+export function toCapitalApiError(error: any, method?: string, endpoint?: string): CapitalApiError {
+  if (error instanceof CapitalApiError) {
+    return error;
+  }
+
+  const response = error?.response;
+  const details: CapitalApiErrorDetails = {
+    endpoint: endpoint ?? error?.config?.url,
+    method: (method ?? error?.config?.method)?.toUpperCase(),
+    cause: error
+  };
+
+  if (!response) {
+    if (error?.isAxiosError || error?.request || error?.code) {
+      const reason = error?.code ? `${error.code}: ${error.message}` : error?.message;
+      return new NetworkError(`Network Error: ${reason}`, details);
+    }
+    return new CapitalApiError(error?.message || String(error), details);
+  }
+
+  const status: number = response.status;
+  const errorCode: string | undefined = response.data?.errorCode;
+  Object.assign(details, {
+    status,
+    errorCode,
+    requestId: getHeader(response.headers, 'x-request-id'),
+    responseData: response.data
+  });
+
+  const message = `API Error (${status}): ${errorCode || response.data?.message || response.statusText || 'Unknown error'}`;
+
+  if (status === 429 || errorCode === 'error.too-many.requests') {
+    return new RateLimitError(message, details, parseRetryAfter(getHeader(response.headers, 'retry-after')));
+  }
+  if (status === 401 || status === 403 || errorCode === 'error.invalid.session.token') {
+    return new AuthenticationError(message, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 400) {
+    return new ValidationError(message, details);
+  }
+  return new CapitalApiError(message, details);
+}
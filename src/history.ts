@@ -0,0 +1,107 @@
+import { NotFoundError } from './errors';
+import { HistoricalPricesRangeOptions, HistoricalPricesResponse, PriceSnapshot, Resolution } from './types';
+
+// Server-side cap on the number of bars returned by GET /api/v1/prices/{epic}
+export const MAX_HISTORICAL_BARS = 1000;
+
+export const RESOLUTION_MS: Record<Resolution, number> = {
+  MINUTE: 60000,
+  MINUTE_5: 5 * 60000,
+  MINUTE_15: 15 * 60000,
+  MINUTE_30: 30 * 60000,
+  HOUR: 3600000,
+  HOUR_4: 4 * 3600000,
+  DAY: 86400000,
+  WEEK: 7 * 86400000
+};
+
+export interface HistoricalPricesWindow {
+  from: Date;
+  to: Date;
+}
+
+// API timestamps carry no zone and are UTC
+export function parseApiTime(value: Date | string): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+  const date = new Date(hasZone ? value : `${value}Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${JSON.stringify(value)}`);
+  }
+  return date;
+}
+
+export function formatApiTime(date: Date): string {
+  return date.toISOString().slice(0, 19);
+}
+
+/**
+ * Split [from, to] into consecutive windows of at most `max` bars of the given resolution.
+ */
+export function splitHistoricalRange(
+  resolution: Resolution,
+  from: Date,
+  to: Date,
+  max = MAX_HISTORICAL_BARS
+): HistoricalPricesWindow[] {
+  if (to.getTime() < from.getTime()) {
+    throw new Error(`Invalid range: ${formatApiTime(to)} is before ${formatApiTime(from)}`);
+  }
+
+  const span = RESOLUTION_MS[resolution] * (Math.max(1, Math.floor(max)) - 1);
+  const windows: HistoricalPricesWindow[] = [];
+  let start = from.getTime();
+  do {
+    const end = Math.min(start + span, to.getTime());
+    windows.push({ from: new Date(start), to: new Date(end) });
+    start = end + RESOLUTION_MS[resolution];
+  } while (start <= to.getTime());
+
+  return windows;
+}
+
+/**
+ * Fetch a range of bars window by window, yielding them in time order without duplicates.
+ * Windows without prices (404) are skipped.
+ */
+export async function* iterateHistoricalPrices(
+  fetchPrices: (params: { resolution: Resolution; max: number; from: string; to: string }) => Promise<HistoricalPricesResponse>,
+  options: HistoricalPricesRangeOptions
+): AsyncGenerator<PriceSnapshot> {
+  const max = Math.min(options.max || MAX_HISTORICAL_BARS, MAX_HISTORICAL_BARS);
+  const from = parseApiTime(options.from);
+  const to = options.to !== undefined ? parseApiTime(options.to) : new Date();
+  let last = -Infinity;
+
+  for (const window of splitHistoricalRange(options.resolution, from, to, max)) {
+    let response: HistoricalPricesResponse;
+    try {
+      response = await fetchPrices({
+        resolution: options.resolution,
+        max,
+        from: formatApiTime(window.from),
+        to: formatApiTime(window.to)
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        continue;
+      }
+      throw error;
+    }
+
+    const bars = (response.prices || [])
+      .map(bar => ({ bar, time: parseApiTime(bar.snapshotTimeUTC).getTime() }))
+      .sort((a, b) => a.time - b.time);
+
+    for (const { bar, time } of bars) {
+      // Bars can be repeated across windows or fall outside the requested range
+      if (time <= last || time < from.getTime() || time > to.getTime()) {
+        continue;
+      }
+      last = time;
+      yield bar;
+    }
+  }
+}
@@ -1,3 +1,70 @@
 export { CapitalAPI } from './CapitalAPI';
-export { CapitalWebSocket } from './CapitalWebSocket';
-export * from './types';
\ No newline at end of file
+export { CapitalWebSocket, DEFAULT_RECONNECT_CONFIG } from './CapitalWebSocket';
+export type { CapitalWebSocketConfig, CapitalWebSocketEvents } from './CapitalWebSocket';
+export { EventStream } from './EventStream';
+export { SubscriptionTracker, MAX_STREAMING_INSTRUMENTS } from './SubscriptionTracker';
+export { StreamWatchdog, DEFAULT_HEARTBEAT_CONFIG } from './StreamWatchdog';
+export type { StreamWatchdogHooks } from './StreamWatchdog';
+export type { OHLCType, OHLCSubscriptionGroup } from './SubscriptionTracker';
+export { SessionManager } from './SessionManager';
+export { CandleSeries } from './CandleSeries';
+export { TickAggregator } from './TickAggregator';
+export type { CandleFetcher } from './CandleSeries';
+export { RateLimiter, TokenBucket, DEFAULT_RATE_LIMITS } from './RateLimiter';
+export { DealValidator, validateDealRequest } from './DealValidator';
+export { PaperBook, marketFromDetails, DEFAULT_LEVERAGES } from './PaperBook';
+export type { PaperBookHooks, PaperMarket, PaperPosition, PaperWorkingOrder } from './PaperBook';
+export { PaperTrader, DEFAULT_PAPER_TRADING_CONFIG } from './PaperTrader';
+export { Backtester, DEFAULT_BACKTEST_CONFIG } from './Backtester';
+export type {
+  BacktestContext,
+  BacktestOptions,
+  BacktestResult,
+  BacktestStrategy,
+  BacktestTrade,
+  EquityPoint
+} from './Backtester';
+export { MarketHours, MarketCalendar } from './MarketHours';
+export {
+  parseDealingRuleValue,
+  parseDealingRules,
+  parseOpeningHours,
+  parseOpeningHoursRange,
+  parseOvernightFee,
+  parseBidAskPrice,
+  parsePriceSnapshot,
+  parseHistoricalPrices,
+  parseMarketDetails
+} from './parsers';
+export {
+  iterateHistoricalPrices,
+  splitHistoricalRange,
+  MAX_HISTORICAL_BARS,
+  RESOLUTION_MS
+} from './history';
+export {
+  selectPrice,
+  priceSnapshotToCandle,
+  priceSnapshotToTicks,
+  historicalPricesToCandles,
+  ohlcToCandle,
+  toMidCandle
+} from './candles';
+export { RetryPolicy, DEFAULT_RETRY_CONFIG } from './retry';
+export {
+  CapitalApiError,
+  AuthenticationError,
+  RateLimitError,
+  ValidationError,
+  NotFoundError,
+  NetworkError,
+  DealRejectedError,
+  DealValidationError,
+  DealConfirmationTimeoutError,
+  SubscriptionError,
+  SubscriptionLimitError
+} from './errors';
+export type { CapitalApiErrorDetails } from './errors';
+export { encryptPassword, parseRSAPublicKey, rsaEncryptPKCS1v15 } from './encryption';
+export type { RSAPublicKey } from './encryption';
+export * from './types';
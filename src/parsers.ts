@@ -0,0 +1,172 @@
+import {
+  BidAskPrice,
+  DealingRuleUnit,
+  DealingRuleValue,
+  DealingRules,
+  HistoricalPricesResponse,
+  MarketDetailsResponse,
+  OpeningHours,
+  OpeningHoursDay,
+  OpeningHoursRange,
+  OvernightFee,
+  ParsedOpeningHours,
+  PriceSnapshot
+} from './types';
+
+export const OPENING_HOURS_DAYS: OpeningHoursDay[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const DEALING_RULE_UNITS: DealingRuleUnit[] = ['POINTS', 'PERCENTAGE', 'AMOUNT'];
+
+function toNumber(value: unknown, field: string): number {
+  const result = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof result !== 'number' || isNaN(result)) {
+    throw new Error(`Invalid ${field}: expected a number but got ${JSON.stringify(value)}`);
+  }
+  return result;
+}
+
+function toObject(value: unknown, field: string): Record<string, any> {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Invalid ${field}: expected an object but got ${JSON.stringify(value)}`);
+  }
+  return value as Record<string, any>;
+}
+
+export function parseDealingRuleValue(raw: unknown, field = 'dealing rule'): DealingRuleValue {
+  const rule = toObject(raw, field);
+  if (!DEALING_RULE_UNITS.includes(rule.unit)) {
+    throw new Error(`Invalid ${field}: unknown unit ${JSON.stringify(rule.unit)}`);
+  }
+  return { unit: rule.unit, value: toNumber(rule.value, `${field}.value`) };
+}
+
+export function parseDealingRules(raw: unknown): DealingRules {
+  const rules = toObject(raw, 'dealingRules');
+  // Rules the market does not define are left out
+  const rule = (name: keyof DealingRules) => rules[name] === undefined || rules[name] === null
+    ? undefined
+    : parseDealingRuleValue(rules[name], `dealingRules.${name}`);
+
+  return {
+    minStepDistance: rule('minStepDistance'),
+    minDealSize: rule('minDealSize'),
+    maxDealSize: rule('maxDealSize'),
+    minSizeIncrement: rule('minSizeIncrement'),
+    minGuaranteedStopDistance: rule('minGuaranteedStopDistance'),
+    minStopOrProfitDistance: rule('minStopOrProfitDistance'),
+    maxStopOrProfitDistance: rule('maxStopOrProfitDistance'),
+    marketOrderPreference: rules.marketOrderPreference,
+    trailingStopsPreference: rules.trailingStopsPreference
+  };
+}
+
+function parseTime(value: string, field: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  // 24:00 is the only time past 23:59
+  if (!match || Number(match[2]) > 59 || minutes > 1440) {
+    throw new Error(`Invalid ${field}: expected HH:mm but got ${JSON.stringify(value)}`);
+  }
+  return minutes;
+}
+
+export function parseOpeningHoursRange(raw: string, field = 'opening hours range'): OpeningHoursRange {
+  const parts = String(raw).split('-');
+  if (parts.length !== 2) {
+    throw new Error(`Invalid ${field}: expected "HH:mm - HH:mm" but got ${JSON.stringify(raw)}`);
+  }
+
+  const start = parts[0].trim();
+  const end = parts[1].trim();
+  const startMinutes = parseTime(start, field);
+  let endMinutes = parseTime(end, field);
+  // Ranges closing at midnight run until the end of the day
+  if (endMinutes === 0) {
+    endMinutes = 1440;
+  }
+  if (endMinutes <= startMinutes) {
+    throw new Error(`Invalid ${field}: ${JSON.stringify(raw)} closes before it opens`);
+  }
+
+  return { start, end, startMinutes, endMinutes };
+}
+
+export function parseOpeningHours(raw: unknown): ParsedOpeningHours {
+  const hours = toObject(raw, 'openingHours') as OpeningHours;
+  const days = {} as Record<OpeningHoursDay, OpeningHoursRange[]>;
+
+  OPENING_HOURS_DAYS.forEach(day => {
+    const ranges = hours[day] || [];
+    if (!Array.isArray(ranges)) {
+      throw new Error(`Invalid openingHours.${day}: expected an array of ranges`);
+    }
+    days[day] = ranges
+      .map(range => parseOpeningHoursRange(range, `openingHours.${day}`))
+      .sort((a, b) => a.startMinutes - b.startMinutes);
+  });
+
+  return typeof hours.zone === 'string' && hours.zone ? { zone: hours.zone, days } : { days };
+}
+
+export function parseOvernightFee(raw: unknown): OvernightFee {
+  const fee = toObject(raw, 'overnightFee');
+  return {
+    longRate: toNumber(fee.longRate, 'overnightFee.longRate'),
+    shortRate: toNumber(fee.shortRate, 'overnightFee.shortRate'),
+    swapChargeTimestamp: toNumber(fee.swapChargeTimestamp, 'overnightFee.swapChargeTimestamp'),
+    swapChargeInterval: toNumber(fee.swapChargeInterval, 'overnightFee.swapChargeInterval')
+  };
+}
+
+export function parseBidAskPrice(raw: unknown, field = 'price'): BidAskPrice {
+  const price = toObject(raw, field);
+  return {
+    bid: toNumber(price.bid, `${field}.bid`),
+    ask: toNumber(price.ask, `${field}.ask`)
+  };
+}
+
+export function parsePriceSnapshot(raw: unknown): PriceSnapshot {
+  const snapshot = toObject(raw, 'price snapshot');
+  return {
+    snapshotTime: snapshot.snapshotTime,
+    snapshotTimeUTC: snapshot.snapshotTimeUTC,
+    openPrice: parseBidAskPrice(snapshot.openPrice, 'openPrice'),
+    closePrice: parseBidAskPrice(snapshot.closePrice, 'closePrice'),
+    highPrice: parseBidAskPrice(snapshot.highPrice, 'highPrice'),
+    lowPrice: parseBidAskPrice(snapshot.lowPrice, 'lowPrice'),
+    lastTradedVolume: snapshot.lastTradedVolume !== undefined
+      ? toNumber(snapshot.lastTradedVolume, 'lastTradedVolume')
+      : 0
+  };
+}
+
+export function parseHistoricalPrices(raw: unknown): HistoricalPricesResponse {
+  const response = toObject(raw, 'historical prices');
+  if (!Array.isArray(response.prices)) {
+    throw new Error('Invalid historical prices: expected a prices array');
+  }
+  return {
+    prices: response.prices.map(parsePriceSnapshot),
+    instrumentType: response.instrumentType
+  };
+}
+
+export function parseMarketDetails(raw: unknown): MarketDetailsResponse {
+  const details = toObject(raw, 'market details');
+  const instrument = toObject(details.instrument, 'instrument');
+  if (instrument.openingHours) {
+    // Validates the ranges; the raw structure is kept on the instrument
+    parseOpeningHours(instrument.openingHours);
+  }
+
+  return {
+    ...(details as MarketDetailsResponse),
+    instrument: {
+      ...(instrument as MarketDetailsResponse['instrument']),
+      openingHours: instrument.openingHours ? (instrument.openingHours as OpeningHours) : null,
+      overnightFee: instrument.overnightFee ? parseOvernightFee(instrument.overnightFee) : null
+    },
+    dealingRules: parseDealingRules(details.dealingRules)
+  };
+}
@@ -0,0 +1,76 @@
+import { CapitalApiError, NetworkError, RateLimitError } from './errors';
+import { RetryConfig } from './types';
+
+export const DEFAULT_RETRY_CONFIG: Required<Omit<RetryConfig, 'onRetry'>> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: true,
+  methods: ['GET']
+};
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Decides whether a failed request is retried and how long to wait before the next attempt.
+ */
+export class RetryPolicy {
+  private readonly config: Required<Omit<RetryConfig, 'onRetry'>>;
+  private readonly onRetry?: RetryConfig['onRetry'];
+
+  constructor(config: RetryConfig = {}) {
+    this.config = {
+      ...DEFAULT_RETRY_CONFIG,
+      ...config,
+      methods: (config.methods || DEFAULT_RETRY_CONFIG.methods).map(method => method.toUpperCase())
+    };
+    this.onRetry = config.onRetry;
+  }
+
+  isRetryable(error: CapitalApiError, method: string): boolean {
+    if (!this.config.methods.includes(method.toUpperCase())) {
+      return false;
+    }
+    if (error instanceof NetworkError) {
+      return (error.cause as any)?.code !== 'ERR_CANCELED';
+    }
+    return error instanceof RateLimitError || (error.status !== undefined && error.status >= 500);
+  }
+
+  // Exponential backoff with full jitter; a Retry-After header wins, up to maxDelay
+  getDelay(attempt: number, error?: CapitalApiError): number {
+    if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+      return Math.min(this.config.maxDelay, error.retryAfter);
+    }
+
+    const backoff = Math.min(this.config.maxDelay, this.config.baseDelay * Math.pow(2, attempt - 1));
+    return this.config.jitter ? Math.round(Math.random() * backoff) : backoff;
+  }
+
+  async execute<T>(method: string, endpoint: string, operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (!(error instanceof CapitalApiError) ||
+            attempt >= this.config.maxAttempts ||
+            !this.isRetryable(error, method)) {
+          throw error;
+        }
+
+        const delay = this.getDelay(attempt, error);
+        this.onRetry?.({
+          attempt,
+          maxAttempts: this.config.maxAttempts,
+          delay,
+          error,
+          method: method.toUpperCase(),
+          endpoint
+        });
+        await sleep(delay);
+      }
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import axios, { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { EventEmitter } from 'events';
+import { readFileSync, writeFileSync } from 'fs';
+import WebSocket from 'ws';
+import { CapitalAPI } from '../CapitalAPI';
+import { Cassette, CassetteInteraction, CassetteStreamMessage } from './types';
+
+export const REDACTED = '[REDACTED]';
+
+// Credentials that never reach a cassette; header names are compared in lower case
+const SECRET_HEADERS = ['cst', 'x-security-token', 'x-cap-api-key', 'set-cookie'];
+const SECRET_FIELDS = ['cst', 'securityToken', 'password'];
+
+function parse(data: any): any {
+  if (data === undefined || data === null || typeof data === 'object' && !Buffer.isBuffer(data)) {
+    return data;
+  }
+  const text = data.toString();
+  if (text === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function redact(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      result[key] = SECRET_FIELDS.includes(key) ? REDACTED : redact(value[key]);
+    });
+    return result;
+  }
+  return value;
+}
+
+function redactHeaders(headers: any): Record<string, string> {
+  const result: Record<string, string> = {};
+  const values = AxiosHeaders.from(headers || {}).toJSON(true) as Record<string, string>;
+  Object.keys(values).forEach(name => {
+    const key = name.toLowerCase();
+    result[key] = SECRET_HEADERS.includes(key) ? REDACTED : values[name];
+  });
+  return result;
+}
+
+function method(config: InternalAxiosRequestConfig): string {
+  return (config.method || 'get').toUpperCase();
+}
+
+// Parameters compare by their redacted JSON, which is what the cassette holds
+function paramsKey(params: any): string {
+  return JSON.stringify(params === undefined ? null : redact(params));
+}
+
+function toText(message: any): string {
+  return typeof message === 'string' ? message : JSON.stringify(message);
+}
+
+/**
+ * Captures a real session as a `Cassette`. `attach` wraps the HTTP adapter of a
+ * `CapitalAPI`, including session creation; WebSockets opened through `createSocket`
+ * (the `createSocket` option of `CapitalWebSocket`) have their messages captured.
+ *
+ * Session tokens, the API key and passwords are redacted before anything is kept.
+ */
+export class CassetteRecorder {
+  private interactions: CassetteInteraction[] = [];
+  private streams: CassetteStreamMessage[][] = [];
+
+  readonly createSocket = (url: string, options: WebSocket.ClientOptions): WebSocket => {
+    const messages: CassetteStreamMessage[] = [];
+    this.streams.push(messages);
+
+    const socket = new WebSocket(url, options);
+    const send = socket.send.bind(socket) as (data: any, ...rest: any[]) => void;
+    socket.send = ((data: any, ...rest: any[]) => {
+      messages.push({ direction: 'sent', message: redact(parse(data.toString())) });
+      send(data, ...rest);
+    }) as WebSocket['send'];
+    socket.on('message', data => messages.push({ direction: 'received', message: redact(parse(data.toString())) }));
+    return socket;
+  };
+
+  attach(api: CapitalAPI): void {
+    const client = api.getHttpClient();
+    const adapter = axios.getAdapter(client.defaults.adapter);
+    client.defaults.adapter = async config => {
+      try {
+        const response = await adapter(config);
+        this.record(config, response);
+        return response;
+      } catch (error) {
+        // Error responses belong to the session; requests that got no response do not
+        if (axios.isAxiosError(error) && error.response) {
+          this.record(config, error.response);
+        }
+        throw error;
+      }
+    };
+  }
+
+  getCassette(): Cassette {
+    return {
+      interactions: this.interactions.slice(),
+      streams: this.streams.map(messages => messages.slice())
+    };
+  }
+
+  save(file: string): void {
+    writeFileSync(file, `${JSON.stringify(this.getCassette(), null, 2)}\n`);
+  }
+
+  private record(config: InternalAxiosRequestConfig, response: AxiosResponse): void {
+    const request: CassetteInteraction['request'] = { method: method(config), url: config.url || '' };
+    if (config.params !== undefined) {
+      request.params = redact(config.params);
+    }
+    if (config.data !== undefined) {
+      request.body = redact(parse(config.data));
+    }
+
+    this.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        headers: redactHeaders(response.headers),
+        body: redact(parse(response.data))
+      }
+    });
+  }
+}
+
+/**
+ * Serves a `Cassette` without a network, so one recorded session becomes an offline test.
+ *
+ * Once attached to a `CapitalAPI`, each request gets the first unserved response recorded
+ * for the same method, URL and parameters. Each socket from `createSocket` replays the next
+ * recorded connection: a sent message is answered by the messages that followed it in the
+ * recording, with correlation ids rewritten to the new request's.
+ */
+export class CassettePlayer {
+  private readonly cassette: Cassette;
+  private served = new Set<CassetteInteraction>();
+  private connections = 0;
+
+  readonly createSocket = (): WebSocket => {
+    const messages = this.cassette.streams[this.connections];
+    if (!messages) {
+      throw new Error(`Cassette has no recording of WebSocket connection ${this.connections + 1}`);
+    }
+    this.connections++;
+    return new ReplaySocket(messages) as unknown as WebSocket;
+  };
+
+  constructor(cassette: Cassette) {
+    this.cassette = cassette;
+  }
+
+  static load(file: string): CassettePlayer {
+    return new CassettePlayer(JSON.parse(readFileSync(file, 'utf8')));
+  }
+
+  attach(api: CapitalAPI): void {
+    api.getHttpClient().defaults.adapter = config => this.serve(config);
+  }
+
+  // Recorded exchanges that no request has asked for yet
+  getUnserved(): CassetteInteraction[] {
+    return this.cassette.interactions.filter(interaction => !this.served.has(interaction));
+  }
+
+  private async serve(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const url = config.url || '';
+    const params = paramsKey(config.params);
+    const interaction = this.cassette.interactions.find(candidate =>
+      !this.served.has(candidate) &&
+      candidate.request.method === method(config) &&
+      candidate.request.url === url &&
+      paramsKey(candidate.request.params) === params);
+    if (!interaction) {
+      throw new Error(`Cassette has no unserved response for ${method(config)} ${url}`);
+    }
+
+    this.served.add(interaction);
+    const { status, headers, body } = interaction.response;
+    const response: AxiosResponse = {
+      // Callers may modify what they get without changing the cassette
+      data: body === undefined ? undefined : JSON.parse(JSON.stringify(body)),
+      status,
+      statusText: '',
+      headers: new AxiosHeaders(headers),
+      config,
+      request: {}
+    };
+
+    if (!config.validateStatus || config.validateStatus(status)) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+}
+
+// Stands in for a `ws` socket while replaying one recorded connection
+class ReplaySocket extends EventEmitter {
+  readyState = 0;
+  private readonly messages: CassetteStreamMessage[];
+  private position = 0;
+
+  constructor(messages: CassetteStreamMessage[]) {
+    super();
+    this.messages = messages;
+    setTimeout(() => {
+      if (this.readyState !== 0) {
+        return;
+      }
+      this.readyState = 1;
+      this.emit('open');
+      // Messages the server pushed before the client sent anything
+      this.reply(this.takeReplies());
+    }, 0);
+  }
+
+  send(data: any): void {
+    const message = parse(data.toString());
+    const index = this.messages.findIndex((entry, i) =>
+      i >= this.position && entry.direction === 'sent' && entry.message?.destination === message?.destination);
+    // Unrecorded messages go unanswered
+    if (index === -1) {
+      return;
+    }
+
+    const recorded = this.messages[index].message;
+    this.position = index + 1;
+    this.reply(this.takeReplies().map(reply => {
+      if (reply?.correlationId === undefined || String(reply.correlationId) !== String(recorded.correlationId)) {
+        return reply;
+      }
+      return { ...reply, correlationId: message.correlationId };
+    }));
+  }
+
+  close(): void {
+    if (this.readyState >= 2) {
+      return;
+    }
+    this.readyState = 2;
+    setTimeout(() => {
+      this.readyState = 3;
+      this.emit('close', 1000, Buffer.from(''));
+    }, 0);
+  }
+
+  terminate(): void {
+    this.close();
+  }
+
+  // The received messages up to the next sent one
+  private takeReplies(): any[] {
+    const replies: any[] = [];
+    while (this.position < this.messages.length && this.messages[this.position].direction === 'received') {
+      replies.push(this.messages[this.position++].message);
+    }
+    return replies;
+  }
+
+  // Delivered after the caller has registered its pending request
+  private reply(messages: any[]): void {
+    if (messages.length === 0) {
+      return;
+    }
+    setTimeout(() => {
+      messages.forEach(message => {
+        if (this.readyState === 1) {
+          this.emit('message', Buffer.from(toText(message)));
+        }
+      });
+    }, 0);
+  }
+}
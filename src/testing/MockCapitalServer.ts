@@ -0,0 +1,502 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { CapitalApiError } from '../errors';
+import { RESOLUTION_MS } from '../history';
+import { Resolution } from '../types';
+import { MockHttpError, MockState } from './MockState';
+import { MockFault, MockRequest, MockResponse, MockServerOptions, MockStreamFault } from './types';
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  headers: IncomingMessage['headers'];
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  authenticated: boolean;
+  handle: (context: RouteContext) => MockResponse;
+}
+
+interface StreamClient {
+  marketData: Set<string>;
+  // Keyed by `${resolution}|${epic}`
+  ohlc: Set<string>;
+}
+
+interface Bar {
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+}
+
+// Streaming sessions accept at most 40 instruments
+const MAX_STREAM_INSTRUMENTS = 40;
+
+const ok = (body: any = { status: 'SUCCESS' }): MockResponse => ({ status: 200, body });
+
+function header(headers: IncomingMessage['headers'], name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * An in-process stand-in for the Capital.com REST and streaming APIs. Point `CapitalAPI`
+ * at `url` and `CapitalWebSocket` at `streamingUrl`; script prices and account state
+ * through `state`, and inject faults to exercise error handling.
+ */
+export class MockCapitalServer {
+  readonly state: MockState;
+  // Every handled HTTP request, oldest first
+  readonly requests: MockRequest[] = [];
+  private readonly port: number;
+  private server?: Server;
+  private wss?: WebSocketServer;
+  private routes: Route[] = [];
+  private faults: (MockFault & { remaining: number })[] = [];
+  private streamFaults: (MockStreamFault & { remaining: number })[] = [];
+  private clients = new Map<WebSocket, StreamClient>();
+  // Current bid and ask bars, keyed by `${resolution}|${epic}`
+  private bars = new Map<string, { bid: Bar; ask: Bar }>();
+  private streamingPaused = false;
+
+  constructor(options: MockServerOptions = {}) {
+    this.port = options.port ?? 0;
+    this.state = new MockState(options);
+    this.state.on('price', (epic: string, bid: number, offer: number, timestamp: number) => this.onPrice(epic, bid, offer, timestamp));
+    this.registerRoutes();
+  }
+
+  get apiKey(): string {
+    return this.state.apiKey;
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${this.getPort()}`;
+  }
+
+  get streamingUrl(): string {
+    return `ws://127.0.0.1:${this.getPort()}/connect`;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        if (!res.headersSent) {
+          this.respond(res, { status: 500, body: { errorCode: 'error.internal', message: String(error) } });
+        }
+      });
+    });
+    this.wss = new WebSocketServer({ server, path: '/connect' });
+    this.wss.on('connection', socket => this.onConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+  }
+
+  async stop(): Promise<void> {
+    this.clients.forEach((_, socket) => socket.terminate());
+    this.clients.clear();
+    if (this.wss) {
+      this.wss.close();
+      this.wss = undefined;
+    }
+    if (this.server) {
+      const server = this.server;
+      this.server = undefined;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  setPrice(epic: string, bid: number, offer: number): void {
+    this.state.setPrice(epic, bid, offer);
+  }
+
+  // Fail matching HTTP requests instead of handling them
+  injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  // Refuse or swallow matching streaming messages
+  injectStreamFault(fault: MockStreamFault): void {
+    this.streamFaults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+    this.streamFaults = [];
+  }
+
+  // Stop sending quotes and bars without closing the connections
+  pauseStreaming(paused = true): void {
+    this.streamingPaused = paused;
+  }
+
+  // Drop every streaming connection abruptly
+  dropConnections(): void {
+    this.clients.forEach((_, socket) => socket.terminate());
+    this.clients.clear();
+  }
+
+  getConnectionCount(): number {
+    return this.clients.size;
+  }
+
+  private getPort(): number {
+    if (!this.server) {
+      throw new Error('Mock server is not running');
+    }
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  // HTTP
+
+  private route(method: string, path: string, handle: Route['handle'], authenticated = true): void {
+    const keys: string[] = [];
+    const pattern = new RegExp('^' + path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    }) + '$');
+    this.routes.push({ method, pattern, keys, authenticated, handle });
+  }
+
+  private registerRoutes(): void {
+    const state = this.state;
+
+    this.route('GET', '/api/v1/time', () => ok({ serverTime: state.now() }), false);
+    this.route('GET', '/api/v1/ping', () => ok({ status: 'OK' }));
+    this.route('GET', '/api/v1/session/encryptionKey', () => ok(state.getEncryptionKey()), false);
+    this.route('POST', '/api/v1/session', ({ headers, body }) => {
+      const { session, cst, securityToken } = state.login(header(headers, 'X-CAP-API-KEY'), body);
+      return { status: 200, body: session, headers: { CST: cst, 'X-SECURITY-TOKEN': securityToken } };
+    }, false);
+    this.route('GET', '/api/v1/session', () => {
+      const account = state.getCurrentAccount();
+      return ok({
+        clientId: 'mock-client',
+        accountId: account.accountId,
+        timezoneOffset: state.timezoneOffset,
+        locale: 'en',
+        currency: account.currency,
+        streamEndpoint: `ws://127.0.0.1:${this.getPort()}/`
+      });
+    });
+    this.route('PUT', '/api/v1/session', ({ headers, body }) => {
+      state.switchAccount(header(headers, 'CST'), body?.accountId);
+      return ok({ trailingStopsEnabled: true, dealingEnabled: true, hasActiveDemoAccounts: true, hasActiveLiveAccounts: false });
+    });
+    this.route('DELETE', '/api/v1/session', ({ headers }) => {
+      state.logout(header(headers, 'CST'));
+      return ok();
+    });
+
+    this.route('GET', '/api/v1/accounts', () => ok({ accounts: state.getAccounts() }));
+    this.route('GET', '/api/v1/accounts/preferences', () => ok(state.getPreferences()));
+    this.route('PUT', '/api/v1/accounts/preferences', ({ body }) => {
+      state.updatePreferences(body || {});
+      return ok();
+    });
+    this.route('POST', '/api/v1/accounts/topUp', ({ body }) => {
+      state.topUp(Number(body?.amount));
+      return ok({ successful: true });
+    });
+    this.route('GET', '/api/v1/history/activity', ({ query }) => ok({ activities: state.getActivities(query) }));
+    this.route('GET', '/api/v1/history/transactions', ({ query }) => ok({ transactions: state.getTransactions(query) }));
+
+    this.route('GET', '/api/v1/confirms/:dealReference', ({ params }) => ok(state.getConfirmation(params.dealReference)));
+    this.route('GET', '/api/v1/positions', () => ok({ positions: state.getPositions() }));
+    this.route('POST', '/api/v1/positions', ({ body }) => ok({ dealReference: state.createPosition(body) }));
+    this.route('GET', '/api/v1/positions/:dealId', ({ params }) => ok(state.getPosition(params.dealId)));
+    this.route('PUT', '/api/v1/positions/:dealId', ({ params, body }) => ok({ dealReference: state.updatePosition(params.dealId, body || {}) }));
+    this.route('DELETE', '/api/v1/positions/:dealId', ({ params }) => ok({ dealReference: state.closePosition(params.dealId) }));
+    this.route('GET', '/api/v1/workingorders', () => ok({ workingOrders: state.getWorkingOrders() }));
+    this.route('POST', '/api/v1/workingorders', ({ body }) => ok({ dealReference: state.createWorkingOrder(body) }));
+    this.route('PUT', '/api/v1/workingorders/:dealId', ({ params, body }) => ok({ dealReference: state.updateWorkingOrder(params.dealId, body || {}) }));
+    this.route('DELETE', '/api/v1/workingorders/:dealId', ({ params }) => ok({ dealReference: state.deleteWorkingOrder(params.dealId) }));
+
+    this.route('GET', '/api/v1/marketnavigation', () => ok(state.getNavigation()));
+    this.route('GET', '/api/v1/marketnavigation/:nodeId', ({ params }) => ok(state.getNavigation(params.nodeId)));
+    this.route('GET', '/api/v1/markets', ({ query }) => ok({ markets: state.getMarkets(query) }));
+    this.route('GET', '/api/v1/markets/:epic', ({ params }) => ok(state.getMarketDetails(params.epic)));
+    this.route('GET', '/api/v1/prices/:epic', ({ params, query }) => ok(state.getPriceHistory(params.epic, query)));
+    this.route('GET', '/api/v1/clientsentiment', ({ query }) => ok({
+      clientSentiments: (query.marketIds || '').split(',').filter(id => id).map(marketId => this.sentiment(marketId))
+    }));
+    this.route('GET', '/api/v1/clientsentiment/:marketId', ({ params }) => ok(this.sentiment(params.marketId)));
+
+    this.route('GET', '/api/v1/watchlists', () => ok({ watchlists: state.getWatchlists() }));
+    this.route('POST', '/api/v1/watchlists', ({ body }) => ok({ watchlistId: state.createWatchlist(body?.name, body?.epics), status: 'SUCCESS' }));
+    this.route('GET', '/api/v1/watchlists/:id', ({ params }) => ok({ markets: state.getWatchlistMarkets(params.id) }));
+    this.route('PUT', '/api/v1/watchlists/:id', ({ params, body }) => {
+      state.addToWatchlist(params.id, body?.epic);
+      return ok();
+    });
+    this.route('DELETE', '/api/v1/watchlists/:id', ({ params }) => {
+      state.deleteWatchlist(params.id);
+      return ok();
+    });
+    this.route('DELETE', '/api/v1/watchlists/:id/:epic', ({ params }) => {
+      state.removeFromWatchlist(params.id, params.epic);
+      return ok();
+    });
+  }
+
+  private sentiment(marketId: string): { marketId: string; longPositionPercentage: number; shortPositionPercentage: number } {
+    this.state.getMarket(marketId);
+    return { marketId, longPositionPercentage: 50, shortPositionPercentage: 50 };
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const method = (req.method || 'GET').toUpperCase();
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+    const body = await this.readBody(req);
+
+    const fault = this.takeFault(method, url.pathname);
+    if (fault?.delay) {
+      await new Promise(resolve => setTimeout(resolve, fault.delay));
+    }
+
+    let response: MockResponse;
+    if (fault?.reset) {
+      this.requests.push({ method, path: url.pathname, query, headers: req.headers, body, status: 0 });
+      req.socket.destroy();
+      return;
+    } else if (fault?.status) {
+      response = { status: fault.status, body: fault.body ?? { errorCode: fault.errorCode || 'error.mock.fault' }, headers: fault.headers };
+    } else {
+      response = this.dispatch(method, url.pathname, { params: {}, query, body, headers: req.headers });
+    }
+
+    this.requests.push({ method, path: url.pathname, query, headers: req.headers, body, status: response.status });
+    this.respond(res, response);
+  }
+
+  private dispatch(method: string, path: string, context: RouteContext): MockResponse {
+    const candidates = this.routes.filter(route => route.pattern.test(path));
+    const route = candidates.find(candidate => candidate.method === method);
+    if (!route) {
+      return candidates.length > 0
+        ? { status: 405, body: { errorCode: 'error.method.not-allowed' } }
+        : { status: 404, body: { errorCode: 'error.not-found.endpoint' } };
+    }
+
+    const match = route.pattern.exec(path)!;
+    route.keys.forEach((key, index) => {
+      context.params[key] = decodeURIComponent(match[index + 1]);
+    });
+
+    try {
+      if (route.authenticated) {
+        this.state.authenticate(header(context.headers, 'CST'), header(context.headers, 'X-SECURITY-TOKEN'));
+      }
+      return route.handle(context);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return { status: error.status, body: { errorCode: error.errorCode } };
+      }
+      // Raised by the paper book with the status the API would have answered with
+      if (error instanceof CapitalApiError && error.status !== undefined) {
+        return { status: error.status, body: { errorCode: error.errorCode } };
+      }
+      throw error;
+    }
+  }
+
+  private takeFault(method: string, path: string): MockFault | undefined {
+    const fault = this.faults.find(candidate =>
+      (!candidate.method || candidate.method.toUpperCase() === method) &&
+      (typeof candidate.path === 'string' ? candidate.path === path : candidate.path.test(path)));
+    if (fault && --fault.remaining <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+    return fault;
+  }
+
+  private readBody(req: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('error', reject);
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString();
+        try {
+          resolve(text ? JSON.parse(text) : undefined);
+        } catch {
+          resolve(text);
+        }
+      });
+    });
+  }
+
+  private respond(res: ServerResponse, response: MockResponse): void {
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+  }
+
+  // Streaming
+
+  private onConnection(socket: WebSocket): void {
+    this.clients.set(socket, { marketData: new Set(), ohlc: new Set() });
+    socket.on('message', data => this.onStreamMessage(socket, data.toString()));
+    socket.on('close', () => this.clients.delete(socket));
+  }
+
+  private onStreamMessage(socket: WebSocket, data: string): void {
+    const client = this.clients.get(socket);
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (!client || !message || typeof message.destination !== 'string') {
+      return;
+    }
+
+    const reply = (status: string, payload: any) => this.sendTo(socket, { status, destination: message.destination, correlationId: message.correlationId, payload });
+
+    const fault = this.streamFaults.find(candidate => candidate.destination === message.destination);
+    if (fault) {
+      if (--fault.remaining <= 0) {
+        this.streamFaults.splice(this.streamFaults.indexOf(fault), 1);
+      }
+      if (!fault.drop) {
+        reply(fault.status || 'FAILED', { errorCode: fault.errorCode || 'error.mock.fault' });
+      }
+      return;
+    }
+
+    try {
+      this.state.authenticate(message.cst, message.securityToken);
+    } catch {
+      reply('FAILED', { errorCode: 'error.invalid.session.token' });
+      return;
+    }
+
+    const payload = message.payload || {};
+    const epics: string[] = Array.isArray(payload.epics) ? payload.epics : [];
+    switch (message.destination) {
+      case 'ping':
+        reply('OK', {});
+        break;
+      case 'marketData.subscribe':
+        reply('OK', { subscriptions: this.subscribe(client, epics, epic => client.marketData.add(epic)) });
+        break;
+      case 'marketData.unsubscribe':
+        reply('OK', { subscriptions: this.processed(epics, epic => client.marketData.delete(epic)) });
+        break;
+      case 'OHLCMarketData.subscribe': {
+        const resolutions: Resolution[] = payload.resolutions || ['MINUTE'];
+        const type = payload.type || 'classic';
+        reply('OK', {
+          subscriptions: type !== 'classic'
+            ? this.processed(epics, () => undefined, 'ERROR: unsupported.type')
+            : this.subscribe(client, epics, epic => resolutions.forEach(resolution => client.ohlc.add(`${resolution}|${epic}`)))
+        });
+        break;
+      }
+      case 'OHLCMarketData.unsubscribe': {
+        const resolutions: Resolution[] = payload.resolutions || ['MINUTE'];
+        reply('OK', {
+          subscriptions: this.processed(epics, epic => resolutions.forEach(resolution => client.ohlc.delete(`${resolution}|${epic}`)))
+        });
+        break;
+      }
+      default:
+        reply('FAILED', { errorCode: 'error.invalid.destination' });
+    }
+  }
+
+  private subscribe(client: StreamClient, epics: string[], add: (epic: string) => void): Record<string, string> {
+    const subscriptions: Record<string, string> = {};
+    epics.forEach(epic => {
+      const instruments = new Set(Array.from(client.marketData).concat(Array.from(client.ohlc).map(key => key.split('|')[1])));
+      if (!this.state.hasMarket(epic)) {
+        subscriptions[epic] = 'ERROR: invalid.epic';
+      } else if (!instruments.has(epic) && instruments.size >= MAX_STREAM_INSTRUMENTS) {
+        subscriptions[epic] = 'ERROR: subscription.limit';
+      } else {
+        add(epic);
+        subscriptions[epic] = 'PROCESSED';
+      }
+    });
+    return subscriptions;
+  }
+
+  private processed(epics: string[], apply: (epic: string) => void, status = 'PROCESSED'): Record<string, string> {
+    const subscriptions: Record<string, string> = {};
+    epics.forEach(epic => {
+      apply(epic);
+      subscriptions[epic] = status;
+    });
+    return subscriptions;
+  }
+
+  private onPrice(epic: string, bid: number, offer: number, timestamp: number): void {
+    const resolutions = new Set<Resolution>();
+    this.clients.forEach(client => client.ohlc.forEach(key => {
+      const [resolution, subscribed] = key.split('|');
+      if (subscribed === epic) {
+        resolutions.add(resolution as Resolution);
+      }
+    }));
+    resolutions.forEach(resolution => this.updateBars(epic, resolution, bid, offer, timestamp));
+
+    if (this.streamingPaused) {
+      return;
+    }
+
+    const quote = { epic, product: 'CFD', bid, bidQty: 1, ofr: offer, ofrQty: 1, timestamp };
+    this.clients.forEach((client, socket) => {
+      if (client.marketData.has(epic)) {
+        this.sendTo(socket, { status: 'OK', destination: 'quote', payload: quote });
+      }
+      resolutions.forEach(resolution => {
+        const bars = this.bars.get(`${resolution}|${epic}`);
+        if (bars && client.ohlc.has(`${resolution}|${epic}`)) {
+          (['bid', 'ask'] as const).forEach(priceType => this.sendTo(socket, {
+            status: 'OK',
+            destination: 'ohlc.event',
+            payload: { resolution, epic, type: 'classic', priceType, ...bars[priceType] }
+          }));
+        }
+      });
+    });
+  }
+
+  private updateBars(epic: string, resolution: Resolution, bid: number, offer: number, timestamp: number): void {
+    const key = `${resolution}|${epic}`;
+    const t = Math.floor(timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+    const bars = this.bars.get(key);
+    const update = (bar: Bar | undefined, price: number): Bar => bar && bar.t === t
+      ? { t, o: bar.o, h: Math.max(bar.h, price), l: Math.min(bar.l, price), c: price }
+      : { t, o: price, h: price, l: price, c: price };
+    this.bars.set(key, { bid: update(bars?.bid, bid), ask: update(bars?.ask, offer) });
+  }
+
+  private sendTo(socket: WebSocket, message: any): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
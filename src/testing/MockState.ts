@@ -0,0 +1,606 @@
+import { EventEmitter } from 'events';
+import { generateKeyPairSync } from 'crypto';
+import { priceSnapshotToTicks } from '../candles';
+import { RESOLUTION_MS, parseApiTime } from '../history';
+import { DEFAULT_LEVERAGES, PaperBook, PaperMarket, marketFromDetails } from '../PaperBook';
+import {
+  Account,
+  AccountPreferences,
+  Activity,
+  Balance,
+  CreatePositionRequest,
+  CreateWorkingOrderRequest,
+  DealConfirmation,
+  DealingRules,
+  Leverages,
+  Market,
+  MarketDetailsResponse,
+  OpeningHours,
+  PositionResponse,
+  PriceSnapshot,
+  Resolution,
+  SessionCredentials,
+  SessionResponse,
+  Transaction,
+  UpdatePositionRequest,
+  UpdateWorkingOrderRequest,
+  Watchlist,
+  WorkingOrderResponse
+} from '../types';
+import { MockAccount, MockMarket, MockPriceTick, MockServerOptions } from './types';
+
+export const DEFAULT_MOCK_API_KEY = 'mock-api-key';
+
+const ALWAYS_OPEN: OpeningHours = {
+  mon: ['00:00 - 00:00'],
+  tue: ['00:00 - 00:00'],
+  wed: ['00:00 - 00:00'],
+  thu: ['00:00 - 00:00'],
+  fri: ['00:00 - 00:00'],
+  sat: ['00:00 - 00:00'],
+  sun: ['00:00 - 00:00'],
+  zone: 'UTC'
+};
+
+const DEFAULT_DEALING_RULES: DealingRules = {
+  minStepDistance: { unit: 'POINTS', value: 0.01 },
+  minDealSize: { unit: 'AMOUNT', value: 0.01 },
+  maxDealSize: { unit: 'AMOUNT', value: 1000000 },
+  minSizeIncrement: { unit: 'AMOUNT', value: 0.01 },
+  minGuaranteedStopDistance: { unit: 'PERCENTAGE', value: 0.5 },
+  minStopOrProfitDistance: { unit: 'POINTS', value: 0 },
+  maxStopOrProfitDistance: { unit: 'PERCENTAGE', value: 75 },
+  marketOrderPreference: 'AVAILABLE_DEFAULT_OFF',
+  trailingStopsPreference: 'AVAILABLE'
+};
+
+/**
+ * A request the mock server refuses; serialized as `{ errorCode }` with the given status.
+ */
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly errorCode: string;
+
+  constructor(status: number, errorCode: string) {
+    super(errorCode);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.errorCode = errorCode;
+  }
+}
+
+interface MarketState {
+  definition: MockMarket;
+  bid: number;
+  offer: number;
+  // Prices the day opened at, for netChange and percentageChange
+  openBid: number;
+  high: number;
+  low: number;
+  updatedAt: number;
+}
+
+interface MockSession {
+  securityToken: string;
+  accountId: string;
+}
+
+function toApiDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 23);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * Scriptable state behind the mock server: sessions, accounts, markets and prices,
+ * positions, working orders, confirmations, watchlists and history.
+ *
+ * Trading goes through a `PaperBook` that is matched on every price change: working
+ * orders expire or fill, trailing stops follow the price, and positions close when
+ * their stop or profit level is reached. Margin follows the account leverages and
+ * realized P&L is booked to the current account's balance.
+ *
+ * Events:
+ * - `price` (epic, bid, offer, timestamp) — a market's price changed
+ * - `filled` (order, position) — a working order was triggered
+ * - `closed` (position, level, profitLoss, source) — a position was closed; source is
+ *   'USER', 'SL' or 'TP'
+ */
+export class MockState extends EventEmitter {
+  readonly apiKey: string;
+  readonly timezoneOffset: number;
+  private readonly credentials?: { identifier?: string; password?: string };
+  private readonly clock: () => number;
+  // Pinned time, set while replaying prices
+  private time?: number;
+  private counter = 0;
+  private sessions = new Map<string, MockSession>();
+  private accounts: Account[];
+  private currentAccountId: string;
+  private preferences: AccountPreferences;
+  private encryptionKey?: string;
+  private markets = new Map<string, MarketState>();
+  private readonly book: PaperBook;
+  private watchlists = new Map<string, { watchlist: Watchlist; epics: string[] }>();
+  // Keyed by `${epic}|${resolution}`, sorted by time
+  private history = new Map<string, PriceSnapshot[]>();
+
+  constructor(options: MockServerOptions = {}) {
+    super();
+    this.apiKey = options.apiKey || DEFAULT_MOCK_API_KEY;
+    this.timezoneOffset = options.timezoneOffset ?? 0;
+    if (options.identifier !== undefined || options.password !== undefined) {
+      this.credentials = { identifier: options.identifier, password: options.password };
+    }
+    this.clock = options.clock || Date.now;
+    this.preferences = { hedgingMode: false, leverages: { ...DEFAULT_LEVERAGES, ...options.leverages } };
+
+    const accounts = options.accounts && options.accounts.length > 0
+      ? options.accounts
+      : [{ accountId: 'MOCK-ACCOUNT', accountName: 'Mock demo account' }];
+    this.accounts = accounts.map((account, index) => this.toAccount(account, index === 0));
+    this.currentAccountId = (this.accounts.find(account => account.preferred) || this.accounts[0]).accountId;
+
+    (options.markets || []).forEach(market => this.addMarket(market));
+
+    this.book = new PaperBook({
+      getMarket: epic => this.toPaperMarket(epic),
+      getCash: () => this.accounts.find(account => account.accountId === this.currentAccountId)!.balance.balance,
+      adjustCash: amount => this.adjustBalance(amount),
+      now: () => this.now(),
+      createId: () => this.nextId()
+    });
+    this.book.on('filled', (...args) => this.emit('filled', ...args));
+    this.book.on('closed', (...args) => this.emit('closed', ...args));
+  }
+
+  now(): number {
+    return this.time ?? this.clock();
+  }
+
+  // Pin the clock to the given time, or release it back to the configured clock
+  setTime(time?: number): void {
+    this.time = time;
+  }
+
+  // Sessions
+
+  login(apiKey: string | undefined, credentials: SessionCredentials): { session: SessionResponse; cst: string; securityToken: string } {
+    if (apiKey !== this.apiKey) {
+      throw new MockHttpError(401, 'error.invalid.api.key');
+    }
+    if (!credentials || !credentials.identifier || !credentials.password) {
+      throw new MockHttpError(400, 'error.invalid.details');
+    }
+    // Encrypted passwords cannot be checked and are accepted as they are
+    if (this.credentials && (credentials.identifier !== this.credentials.identifier ||
+        (!credentials.encryptedPassword && credentials.password !== this.credentials.password))) {
+      throw new MockHttpError(401, 'error.invalid.details');
+    }
+
+    const cst = `cst-${this.nextId()}`;
+    const securityToken = `token-${this.nextId()}`;
+    this.sessions.set(cst, { securityToken, accountId: this.currentAccountId });
+
+    const account = this.getCurrentAccount();
+    return {
+      cst,
+      securityToken,
+      session: {
+        accountType: 'CFD',
+        accountInfo: account.balance,
+        currencyIsoCode: account.currency,
+        currencySymbol: account.symbol,
+        currentAccountId: account.accountId,
+        streamingHost: '',
+        accounts: this.getAccounts(),
+        clientId: 'mock-client',
+        timezoneOffset: this.timezoneOffset,
+        hasActiveDemoAccounts: true,
+        hasActiveLiveAccounts: false,
+        trailingStopsEnabled: true
+      }
+    };
+  }
+
+  // Throws unless the tokens belong to a live session
+  authenticate(cst: string | undefined, securityToken: string | undefined): void {
+    const session = cst ? this.sessions.get(cst) : undefined;
+    if (!session || session.securityToken !== securityToken) {
+      throw new MockHttpError(401, 'error.invalid.session.token');
+    }
+  }
+
+  logout(cst: string | undefined): void {
+    if (cst) {
+      this.sessions.delete(cst);
+    }
+  }
+
+  // Invalidate every session, as if they had timed out
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  getEncryptionKey(): { encryptionKey: string; timeStamp: number } {
+    if (!this.encryptionKey) {
+      const { publicKey } = generateKeyPairSync('rsa', {
+        modulusLength: 1024,
+        publicKeyEncoding: { type: 'spki', format: 'der' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'der' }
+      });
+      this.encryptionKey = publicKey.toString('base64');
+    }
+    return { encryptionKey: this.encryptionKey, timeStamp: this.now() };
+  }
+
+  switchAccount(cst: string | undefined, accountId: string): void {
+    if (!this.accounts.some(account => account.accountId === accountId)) {
+      throw new MockHttpError(404, 'error.not-found.accountId');
+    }
+    this.currentAccountId = accountId;
+    const session = cst ? this.sessions.get(cst) : undefined;
+    if (session) {
+      session.accountId = accountId;
+    }
+  }
+
+  // Accounts
+
+  getAccounts(): Account[] {
+    return this.accounts.map(account => ({ ...account, balance: this.getBalance(account) }));
+  }
+
+  getCurrentAccount(): Account {
+    const account = this.accounts.find(candidate => candidate.accountId === this.currentAccountId)!;
+    return { ...account, balance: this.getBalance(account) };
+  }
+
+  getPreferences(): AccountPreferences {
+    return { hedgingMode: this.preferences.hedgingMode, leverages: { ...this.preferences.leverages } };
+  }
+
+  updatePreferences(update: { leverages?: Partial<Leverages>; hedgingMode?: boolean }): void {
+    if (update.hedgingMode !== undefined) {
+      this.preferences.hedgingMode = update.hedgingMode;
+    }
+    this.preferences.leverages = { ...this.preferences.leverages, ...update.leverages };
+  }
+
+  topUp(amount: number): void {
+    if (!(amount > 0)) {
+      throw new MockHttpError(400, 'error.invalid.amount');
+    }
+    this.adjustBalance(amount);
+  }
+
+  // Change the balance of the current account, e.g. for deposits or realized P&L
+  adjustBalance(amount: number): void {
+    const account = this.accounts.find(candidate => candidate.accountId === this.currentAccountId)!;
+    account.balance.balance = round(account.balance.balance + amount);
+  }
+
+  // Markets and prices
+
+  addMarket(market: MockMarket): void {
+    const now = this.now();
+    this.markets.set(market.epic, {
+      definition: market,
+      bid: market.bid,
+      offer: market.offer,
+      openBid: market.bid,
+      high: market.offer,
+      low: market.bid,
+      updatedAt: now
+    });
+  }
+
+  hasMarket(epic: string): boolean {
+    return this.markets.has(epic);
+  }
+
+  setMarketStatus(epic: string, marketStatus: MockMarket['marketStatus']): void {
+    this.getMarketState(epic).definition.marketStatus = marketStatus;
+  }
+
+  setPrice(epic: string, bid: number, offer: number): void {
+    if (!(offer >= bid)) {
+      throw new Error(`Invalid price for ${epic}: offer ${offer} is below bid ${bid}`);
+    }
+    const market = this.getMarketState(epic);
+    const now = this.now();
+    market.bid = bid;
+    market.offer = offer;
+    market.high = Math.max(market.high, offer);
+    market.low = Math.min(market.low, bid);
+    market.updatedAt = now;
+    this.book.match(epic);
+    this.emit('price', epic, bid, offer, now);
+  }
+
+  // Play a scripted price feed tick by tick; timestamps move the clock
+  replay(ticks: MockPriceTick[]): void {
+    ticks.forEach(tick => {
+      if (tick.timestamp !== undefined) {
+        this.time = tick.timestamp;
+      }
+      this.setPrice(tick.epic, tick.bid, tick.offer);
+    });
+  }
+
+  // Replay candles as a price feed, four ticks per bar; replays the stored history when no prices are given
+  replayCandles(epic: string, resolution: Resolution, prices = this.history.get(`${epic}|${resolution}`) || []): void {
+    this.replay(prices.flatMap(price => priceSnapshotToTicks(price, resolution).map(tick => ({
+      epic,
+      bid: tick.bid,
+      offer: tick.offer,
+      timestamp: tick.time
+    }))));
+  }
+
+  getPrice(epic: string): { bid: number; offer: number } {
+    const market = this.getMarketState(epic);
+    return { bid: market.bid, offer: market.offer };
+  }
+
+  getMarkets(params: { searchTerm?: string; epics?: string } = {}): Market[] {
+    let markets = Array.from(this.markets.values());
+    if (params.epics) {
+      const epics = params.epics.split(',');
+      markets = markets.filter(market => epics.includes(market.definition.epic));
+    }
+    if (params.searchTerm) {
+      const term = params.searchTerm.toLowerCase();
+      markets = markets.filter(market =>
+        market.definition.epic.toLowerCase().includes(term) ||
+        (market.definition.name || '').toLowerCase().includes(term));
+    }
+    return markets.map(market => this.toMarket(market));
+  }
+
+  getMarket(epic: string): Market {
+    return this.toMarket(this.getMarketState(epic));
+  }
+
+  getMarketDetails(epic: string): MarketDetailsResponse {
+    const market = this.getMarketState(epic);
+    const { definition } = market;
+    const type = definition.type || 'CURRENCIES';
+
+    return {
+      instrument: {
+        epic: definition.epic,
+        symbol: definition.epic,
+        expiry: '-',
+        name: definition.name || definition.epic,
+        lotSize: definition.lotSize ?? 1,
+        type,
+        guaranteedStopAllowed: true,
+        streamingPricesAvailable: true,
+        currency: definition.currency || 'USD',
+        marginFactor: round(100 / this.preferences.leverages[type]),
+        marginFactorUnit: 'PERCENTAGE',
+        openingHours: definition.openingHours === undefined ? ALWAYS_OPEN : definition.openingHours,
+        overnightFee: null
+      },
+      dealingRules: { ...DEFAULT_DEALING_RULES, ...definition.dealingRules },
+      snapshot: {
+        marketStatus: definition.marketStatus || 'TRADEABLE',
+        netChange: round(market.bid - market.openBid),
+        percentageChange: market.openBid ? round(((market.bid - market.openBid) / market.openBid) * 100) : 0,
+        updateTime: toApiDate(market.updatedAt),
+        delayTime: 0,
+        bid: market.bid,
+        offer: market.offer,
+        high: market.high,
+        low: market.low,
+        decimalPlacesFactor: 2,
+        scalingFactor: 1,
+        marketModes: ['REGULAR']
+      }
+    };
+  }
+
+  // Navigation nodes are the instrument types of the known markets
+  getNavigation(nodeId?: string): { nodes: { id: string; name: string }[]; markets?: Market[] } {
+    const markets = Array.from(this.markets.values());
+    if (nodeId === undefined) {
+      const types = Array.from(new Set(markets.map(market => market.definition.type || 'CURRENCIES')));
+      return { nodes: types.map(type => ({ id: type.toLowerCase(), name: type })) };
+    }
+    return {
+      nodes: [],
+      markets: markets
+        .filter(market => (market.definition.type || 'CURRENCIES').toLowerCase() === nodeId)
+        .map(market => this.toMarket(market))
+    };
+  }
+
+  addPriceHistory(epic: string, resolution: Resolution, prices: PriceSnapshot[]): void {
+    const key = `${epic}|${resolution}`;
+    const byTime = new Map<string, PriceSnapshot>();
+    (this.history.get(key) || []).concat(prices).forEach(price => byTime.set(price.snapshotTimeUTC, price));
+    this.history.set(key, Array.from(byTime.values())
+      .sort((a, b) => parseApiTime(a.snapshotTimeUTC).getTime() - parseApiTime(b.snapshotTimeUTC).getTime()));
+  }
+
+  getPriceHistory(epic: string, params: { resolution?: string; max?: string; from?: string; to?: string }): { prices: PriceSnapshot[]; instrumentType: Market['instrumentType'] } {
+    const market = this.getMarketState(epic);
+    const resolution = (params.resolution || 'MINUTE') as Resolution;
+    if (!RESOLUTION_MS[resolution]) {
+      throw new MockHttpError(400, 'error.invalid.resolution');
+    }
+
+    const from = params.from ? parseApiTime(params.from).getTime() : -Infinity;
+    const to = params.to ? parseApiTime(params.to).getTime() : Infinity;
+    const max = Math.min(Number(params.max) || 10, 1000);
+    const prices = (this.history.get(`${epic}|${resolution}`) || []).filter(price => {
+      const time = parseApiTime(price.snapshotTimeUTC).getTime();
+      return time >= from && time <= to;
+    });
+
+    return {
+      prices: params.from ? prices.slice(0, max) : prices.slice(-max),
+      instrumentType: market.definition.type || 'CURRENCIES'
+    };
+  }
+
+  // Positions and working orders, simulated by the book on every price change
+
+  getPositions(): PositionResponse[] {
+    return this.book.getPositions();
+  }
+
+  getPosition(dealId: string): PositionResponse {
+    return this.book.getPosition(dealId);
+  }
+
+  createPosition(request: CreatePositionRequest): string {
+    return this.book.createPosition(request);
+  }
+
+  updatePosition(dealId: string, request: UpdatePositionRequest): string {
+    return this.book.updatePosition(dealId, request);
+  }
+
+  closePosition(dealId: string): string {
+    return this.book.closePosition(dealId);
+  }
+
+  getWorkingOrders(): WorkingOrderResponse[] {
+    return this.book.getWorkingOrders();
+  }
+
+  createWorkingOrder(request: CreateWorkingOrderRequest): string {
+    return this.book.createWorkingOrder(request);
+  }
+
+  updateWorkingOrder(dealId: string, request: UpdateWorkingOrderRequest): string {
+    return this.book.updateWorkingOrder(dealId, request);
+  }
+
+  deleteWorkingOrder(dealId: string): string {
+    return this.book.deleteWorkingOrder(dealId);
+  }
+
+  getConfirmation(dealReference: string): DealConfirmation {
+    return this.book.getConfirmation(dealReference);
+  }
+
+  // History
+
+  addActivity(activity: Activity): void {
+    this.book.addActivity(activity);
+  }
+
+  addTransaction(transaction: Transaction): void {
+    this.book.addTransaction(transaction);
+  }
+
+  getActivities(params: { from?: string; to?: string; lastPeriod?: string; dealId?: string } = {}): Activity[] {
+    return this.book.getActivities(params);
+  }
+
+  getTransactions(params: { from?: string; to?: string; lastPeriod?: string; type?: string } = {}): Transaction[] {
+    return this.book.getTransactions(params);
+  }
+
+  // Watchlists
+
+  getWatchlists(): Watchlist[] {
+    return Array.from(this.watchlists.values()).map(entry => ({ ...entry.watchlist }));
+  }
+
+  createWatchlist(name: string, epics: string[] = []): string {
+    if (!name) {
+      throw new MockHttpError(400, 'error.invalid.name');
+    }
+    epics.forEach(epic => this.getMarketState(epic));
+    const id = this.nextId();
+    this.watchlists.set(id, { watchlist: { id, name, editable: true, deleteable: true }, epics: [...epics] });
+    return id;
+  }
+
+  getWatchlistMarkets(id: string): Market[] {
+    return this.getWatchlistState(id).epics.map(epic => this.getMarket(epic));
+  }
+
+  addToWatchlist(id: string, epic: string): void {
+    const watchlist = this.getWatchlistState(id);
+    this.getMarketState(epic);
+    if (!watchlist.epics.includes(epic)) {
+      watchlist.epics.push(epic);
+    }
+  }
+
+  removeFromWatchlist(id: string, epic: string): void {
+    const watchlist = this.getWatchlistState(id);
+    watchlist.epics = watchlist.epics.filter(candidate => candidate !== epic);
+  }
+
+  deleteWatchlist(id: string): void {
+    this.getWatchlistState(id);
+    this.watchlists.delete(id);
+  }
+
+  // Helpers
+
+  private nextId(): string {
+    this.counter++;
+    return `00000000-0000-0000-0000-${this.counter.toString(16).padStart(12, '0')}`;
+  }
+
+  private toAccount(account: MockAccount, preferred: boolean): Account {
+    const balance = account.balance ?? 10000;
+    const currency = account.currency || 'USD';
+    return {
+      accountId: account.accountId,
+      accountName: account.accountName || account.accountId,
+      preferred: account.preferred ?? preferred,
+      accountType: 'CFD',
+      currency,
+      symbol: currency === 'USD' ? '$' : currency,
+      balance: { balance, deposit: 0, profitLoss: 0, available: balance }
+    };
+  }
+
+  private getBalance(account: Account): Balance {
+    return account.accountId === this.currentAccountId ? this.book.getBalance() : { ...account.balance };
+  }
+
+  private getMarketState(epic: string): MarketState {
+    const market = this.markets.get(epic);
+    if (!market) {
+      throw new MockHttpError(404, 'error.not-found.epic');
+    }
+    return market;
+  }
+
+  private getWatchlistState(id: string): { watchlist: Watchlist; epics: string[] } {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) {
+      throw new MockHttpError(404, 'error.not-found.watchlistId');
+    }
+    return watchlist;
+  }
+
+  private toMarket(market: MarketState): Market {
+    return marketFromDetails(this.getMarketDetails(market.definition.epic));
+  }
+
+  private toPaperMarket(epic: string): PaperMarket {
+    const details = this.getMarketDetails(epic);
+    return {
+      epic,
+      bid: details.snapshot.bid,
+      offer: details.snapshot.offer,
+      currency: details.instrument.currency,
+      marginFactor: details.instrument.marginFactor,
+      minDealSize: details.dealingRules.minDealSize?.value ?? 0,
+      tradeable: details.snapshot.marketStatus === 'TRADEABLE',
+      market: marketFromDetails(details)
+    };
+  }
+}
@@ -0,0 +1,5 @@
+export { MockCapitalServer } from './MockCapitalServer';
+export { MockState, MockHttpError, DEFAULT_MOCK_API_KEY } from './MockState';
+export { DEFAULT_LEVERAGES } from '../PaperBook';
+export { CassetteRecorder, CassettePlayer, REDACTED } from './Cassette';
+export * from './types';
@@ -0,0 +1,142 @@
+import {
+  DealingRules,
+  InstrumentType,
+  Leverages,
+  MarketStatus,
+  OpeningHours,
+  PriceSnapshot,
+  Resolution
+} from '../types';
+
+export interface MockMarket {
+  epic: string;
+  bid: number;
+  offer: number;
+  name?: string;
+  // Default: 'CURRENCIES'
+  type?: InstrumentType;
+  // Default: 'TRADEABLE'
+  marketStatus?: MarketStatus;
+  // Default: 'USD'
+  currency?: string;
+  lotSize?: number;
+  // Default: open around the clock
+  openingHours?: OpeningHours | null;
+  // Overrides for the default dealing rules
+  dealingRules?: Partial<DealingRules>;
+}
+
+export interface MockAccount {
+  accountId: string;
+  accountName?: string;
+  // Default: 'USD'
+  currency?: string;
+  // Default: 10000
+  balance?: number;
+  preferred?: boolean;
+}
+
+export interface MockServerOptions {
+  // Port to listen on; 0 picks a free one (default: 0)
+  port?: number;
+  // API key clients must send (default: 'mock-api-key')
+  apiKey?: string;
+  // Accepted login; any identifier and password are accepted when omitted
+  identifier?: string;
+  password?: string;
+  accounts?: MockAccount[];
+  markets?: MockMarket[];
+  leverages?: Partial<Leverages>;
+  // Session timezone offset in hours (default: 0)
+  timezoneOffset?: number;
+  // Current time in ms; replace to run against a scripted clock (default: Date.now)
+  clock?: () => number;
+}
+
+export interface MockFault {
+  // HTTP method to match; any method when omitted
+  method?: string;
+  // Path to match, e.g. '/api/v1/positions' or /\/api\/v1\/markets\/.+/
+  path: string | RegExp;
+  // Respond with this status instead of handling the request
+  status?: number;
+  errorCode?: string;
+  // Response body; defaults to { errorCode }
+  body?: any;
+  headers?: Record<string, string>;
+  // Delay the response, in milliseconds
+  delay?: number;
+  // Destroy the connection without responding
+  reset?: boolean;
+  // How many requests the fault applies to (default: 1)
+  times?: number;
+}
+
+export interface MockStreamFault {
+  // Destination to match, e.g. 'marketData.subscribe'
+  destination: string;
+  // Reply status (default: 'FAILED')
+  status?: string;
+  errorCode?: string;
+  // Swallow the message without replying
+  drop?: boolean;
+  // How many messages the fault applies to (default: 1)
+  times?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string | string[] | undefined>;
+  body?: any;
+  status: number;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export interface MockPriceHistory {
+  epic: string;
+  resolution: Resolution;
+  prices: PriceSnapshot[];
+}
+
+export interface MockPriceTick {
+  epic: string;
+  bid: number;
+  offer: number;
+  // Moves the mock clock to this time, in ms
+  timestamp?: number;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    // As requested, relative to the base URL
+    url: string;
+    params?: Record<string, any>;
+    body?: any;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: any;
+  };
+}
+
+export interface CassetteStreamMessage {
+  direction: 'sent' | 'received';
+  // Parsed JSON, or the raw text of messages that are not JSON
+  message: any;
+}
+
+export interface Cassette {
+  // HTTP exchanges in the order their responses arrived
+  interactions: CassetteInteraction[];
+  // The messages of each WebSocket connection, in the order the connections were opened
+  streams: CassetteStreamMessage[][];
+}
@@ -188,6 +188,9 @@ export interface Position {
   level: number;
   currency: string;
   guaranteedStop: boolean;
+  trailingStop?: boolean;
+  stopLevel?: number;
+  profitLevel?: number;
 }
 
 export interface Market {
@@ -268,6 +271,10 @@ export interface WorkingOrder {
   currencyCode?: string;
   createdDate: string;
   createdDateUTC: string;
+  stopLevel?: number;
+  stopDistance?: number;
+  profitLevel?: number;
+  profitDistance?: number;
 }
 
 export interface WorkingOrderResponse {
@@ -292,6 +299,30 @@ export interface DealConfirmation {
   direction: Direction;
   guaranteedStop: boolean;
   trailingStop: boolean;
+  // Why the deal was rejected, e.g. 'INSUFFICIENT_FUNDS'
+  reason?: string;
+}
+
+export interface DealViolation {
+  field: 'size' | 'stop' | 'profit' | 'guaranteedStop' | 'trailingStop';
+  rule: string;
+  message: string;
+  value?: number;
+  limit?: number;
+}
+
+export interface DealValidationResult {
+  valid: boolean;
+  violations: DealViolation[];
+}
+
+export interface DealConfirmationOptions {
+  // Give up after this many milliseconds (default: 10000)
+  timeout?: number;
+  // Delay before the first poll in milliseconds, doubled after every miss (default: 100)
+  initialDelay?: number;
+  // Upper bound for the delay between polls in milliseconds (default: 1000)
+  maxDelay?: number;
 }
 
 // Market Data Types
@@ -304,6 +335,67 @@ export interface NavigationResponse {
   nodes: NavigationNode[];
 }
 
+export type DealingRuleUnit = 'POINTS' | 'PERCENTAGE' | 'AMOUNT';
+export type MarketOrderPreference = 'AVAILABLE_DEFAULT_ON' | 'AVAILABLE_DEFAULT_OFF' | 'NOT_AVAILABLE';
+export type TrailingStopsPreference = 'AVAILABLE' | 'NOT_AVAILABLE';
+export type OpeningHoursDay = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface DealingRuleValue {
+  unit: DealingRuleUnit;
+  value: number;
+}
+
+// Raw opening hours as returned by the API, e.g. { mon: ['00:00 - 21:59', '23:05 - 00:00'], zone: 'UTC' }
+export type OpeningHours = { [day in OpeningHoursDay]?: string[] } & { zone: string };
+
+export interface OpeningHoursRange {
+  start: string;
+  end: string;
+  // Minutes since midnight; a range closing at '00:00' ends at 1440
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface ParsedOpeningHours {
+  // Absent when the response carries none; `MarketHours` then uses the session offset
+  zone?: string;
+  days: Record<OpeningHoursDay, OpeningHoursRange[]>;
+}
+
+export interface MarketHoursOptions {
+  // Session timezone offset in hours, used when the opening hours carry no zone
+  timezoneOffset?: number;
+}
+
+// A continuous trading session, merged across midnight
+export interface MarketSession {
+  openDay: OpeningHoursDay;
+  openTime: string;
+  closeDay: OpeningHoursDay;
+  closeTime: string;
+  durationMinutes: number;
+}
+
+export interface WeeklySchedule {
+  zone: string;
+  days: Record<OpeningHoursDay, OpeningHoursRange[]>;
+  sessions: MarketSession[];
+}
+
+export interface OvernightFee {
+  // Daily rates in percent applied to long and short positions
+  longRate: number;
+  shortRate: number;
+  // Time of the next swap charge (ms since epoch) and the interval between charges in minutes
+  swapChargeTimestamp: number;
+  swapChargeInterval: number;
+}
+
+export interface BidAskPrice {
+  bid: number;
+  ask: number;
+}
+
 export interface Instrument {
   epic: string;
   symbol: string;
@@ -316,20 +408,21 @@ export interface Instrument {
   currency: string;
   marginFactor: number;
   marginFactorUnit: string;
-  openingHours: any;
-  overnightFee: any;
+  openingHours: OpeningHours | null;
+  overnightFee: OvernightFee | null;
 }
 
+// Rules a market does not define are absent
 export interface DealingRules {
-  minStepDistance: any;
-  minDealSize: any;
-  maxDealSize: any;
-  minSizeIncrement: any;
-  minGuaranteedStopDistance: any;
-  minStopOrProfitDistance: any;
-  maxStopOrProfitDistance: any;
-  marketOrderPreference: string;
-  trailingStopsPreference: string;
+  minStepDistance?: DealingRuleValue;
+  minDealSize?: DealingRuleValue;
+  maxDealSize?: DealingRuleValue;
+  minSizeIncrement?: DealingRuleValue;
+  minGuaranteedStopDistance?: DealingRuleValue;
+  minStopOrProfitDistance?: DealingRuleValue;
+  maxStopOrProfitDistance?: DealingRuleValue;
+  marketOrderPreference: MarketOrderPreference;
+  trailingStopsPreference: TrailingStopsPreference;
 }
 
 export interface Snapshot {
@@ -360,10 +453,10 @@ export interface MarketsResponse {
 export interface PriceSnapshot {
   snapshotTime: string;
   snapshotTimeUTC: string;
-  openPrice: any;
-  closePrice: any;
-  highPrice: any;
-  lowPrice: any;
+  openPrice: BidAskPrice;
+  closePrice: BidAskPrice;
+  highPrice: BidAskPrice;
+  lowPrice: BidAskPrice;
   lastTradedVolume: number;
 }
 
@@ -372,6 +465,16 @@ export interface HistoricalPricesResponse {
   instrumentType: InstrumentType;
 }
 
+export interface HistoricalPricesRangeOptions {
+  resolution: Resolution;
+  // Dates, or API timestamps such as '2024-01-02T10:00:00' (UTC)
+  from: Date | string;
+  // Defaults to now
+  to?: Date | string;
+  // Bars per request (default and server maximum: 1000)
+  max?: number;
+}
+
 export interface ClientSentiment {
   marketId: string;
   longPositionPercentage: number;
@@ -421,16 +524,83 @@ export interface WebSocketMessage {
   payload?: any;
 }
 
+// Messages received from the streaming API
+export interface WebSocketResponse {
+  status?: string;
+  destination: string;
+  correlationId?: string;
+  payload?: any;
+}
+
 export interface MarketDataSubscription {
   epics: string[];
 }
 
+export interface SubscriptionResult {
+  destination: string;
+  correlationId: string;
+  // Per-epic status as reported by the server, e.g. { GOLD: 'PROCESSED' }
+  subscriptions: Record<string, string>;
+  succeeded: string[];
+  failed: { epic: string; status: string }[];
+}
+
+export interface SubscriptionHandle extends SubscriptionResult {
+  unsubscribe(): Promise<SubscriptionResult>;
+}
+
 export interface OHLCSubscription {
   epics: string[];
   resolutions?: Resolution[];
   type?: 'classic' | 'heikin-ashi';
 }
 
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface HeartbeatConfig {
+  // How often the stream is checked, in milliseconds (default: 5000)
+  checkInterval?: number;
+  // How often the server is pinged, in milliseconds (default: 60000)
+  pingInterval?: number;
+  // A ping without pong within this time marks the connection as stale and forces a reconnect (default: 10000)
+  pongTimeout?: number;
+  // An epic without quotes for this long is reported as stale, in milliseconds (default: 60000)
+  staleAfter?: number;
+  // Also force a reconnect when an epic goes stale (default: false)
+  reconnectOnStale?: boolean;
+  // Only epics whose market is open are reported; all markets count as open by default
+  isMarketOpen?: (epic: string) => boolean | Promise<boolean>;
+}
+
+// Ping round-trip times in milliseconds over the most recent pongs
+export interface LatencyStats {
+  samples: number;
+  last: number;
+  min: number;
+  avg: number;
+  p95: number;
+}
+
+export interface StaleEvent {
+  // 'pong' when the server stopped answering pings, 'quotes' when an epic stopped updating
+  reason: 'pong' | 'quotes';
+  epic?: string;
+  // Time of the last quote for the epic (epoch ms), if any arrived
+  lastUpdate?: number;
+  silentFor: number;
+}
+
+export interface ReconnectConfig {
+  // Attempts after the connection drops before giving up (default: 10)
+  maxAttempts?: number;
+  // Delay before the first attempt in milliseconds, doubled for every further attempt (default: 1000)
+  baseDelay?: number;
+  // Upper bound for a single backoff delay in milliseconds (default: 30000)
+  maxDelay?: number;
+  // Randomize delays between 0 and the backoff value (default: true)
+  jitter?: boolean;
+}
+
 export interface QuoteData {
   epic: string;
   product: string;
@@ -453,6 +623,64 @@ export interface OHLCData {
   c: number;
 }
 
+export type PriceSide = 'bid' | 'ask' | 'mid';
+
+// Server resolutions, or custom bars built from ticks: seconds ('10s'), tick counts ('100t') or price ranges ('0.5r')
+export type CandleResolution = Resolution | `${number}s` | `${number}t` | `${number}r`;
+
+// A single OHLC bar in one price side, shared by REST history, the OHLC stream and backtesting
+export interface Candle {
+  epic: string;
+  resolution: CandleResolution;
+  side: PriceSide;
+  // Bar open time in milliseconds since epoch (UTC)
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Only available from REST history
+  volume?: number;
+  // Number of quotes in bars built from ticks
+  ticks?: number;
+}
+
+export interface PriceTick {
+  bid: number;
+  offer: number;
+  // Milliseconds since epoch (UTC)
+  time: number;
+}
+
+export interface CandleOptions {
+  epic: string;
+  resolution: Resolution;
+  // Price side to read from bid/ask pairs (default: 'bid')
+  side?: PriceSide;
+}
+
+export type TickBarSpec =
+  // Bars of a fixed duration in milliseconds, aligned to the epoch (UTC)
+  | { type: 'time'; interval: number }
+  // Bars of a fixed number of quotes
+  | { type: 'tick'; count: number }
+  // Bars closing once their high-low range reaches `range` price points
+  | { type: 'range'; range: number };
+
+export interface TickAggregatorConfig {
+  epic: string;
+  bar: TickBarSpec;
+  // Price side to aggregate (default: 'bid')
+  side?: PriceSide;
+}
+
+export interface CandleSeriesConfig extends CandleOptions {
+  // Bars loaded from REST on start (default: 1000)
+  backfill?: number;
+  // Bars kept in memory, oldest dropped first (default: 5000)
+  maxBars?: number;
+}
+
 // Common Response Types
 export interface ApiResponse<T = any> {
   data?: T;
@@ -473,9 +701,108 @@ export interface PingResponse {
 }
 
 // Configuration Types
+export type SessionLostReason = 'timeout' | 'unauthorized' | 'renewalFailed';
+
+export interface SessionKeepAliveConfig {
+  // Ping while idle; when false the session age is only tracked (default: true)
+  enabled?: boolean;
+  // Server-side idle timeout in milliseconds (default: 600000)
+  sessionTimeout?: number;
+  // Idle time in milliseconds before a keep-alive ping is sent (default: sessionTimeout / 2)
+  pingInterval?: number;
+  // How long before expiry `sessionExpiring` is emitted, in milliseconds (default: 60000)
+  expiryWarning?: number;
+}
+
+export interface SessionEvent {
+  timestamp: number;
+  expiresAt?: number;
+  reason?: SessionLostReason;
+}
+
+export type RateLimitCategory = 'session' | 'trading' | 'general';
+
+export interface RateLimitRule {
+  // Number of requests allowed per interval (also the burst size)
+  requests: number;
+  // Interval in milliseconds
+  interval: number;
+}
+
+export interface RateLimitConfig {
+  general?: RateLimitRule;
+  trading?: RateLimitRule;
+  session?: RateLimitRule;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  error: Error;
+  method: string;
+  endpoint: string;
+}
+
+export interface RetryConfig {
+  // Total number of attempts including the first one (default: 3)
+  maxAttempts?: number;
+  // Delay before the first retry in milliseconds, doubled for every further retry (default: 500)
+  baseDelay?: number;
+  // Upper bound for a single delay in milliseconds, including a Retry-After (default: 10000)
+  maxDelay?: number;
+  // Randomize delays between 0 and the backoff value (default: true)
+  jitter?: boolean;
+  // HTTP methods that may be retried (default: ['GET']); add POST/PUT/DELETE to retry trading calls
+  methods?: string[];
+  // Called before every retry
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+export interface PreTradeValidationConfig {
+  // How long fetched market details are reused, in milliseconds (default: 60000)
+  cacheTtl?: number;
+}
+
+export interface PaperTradingConfig {
+  // Starting cash balance of the simulated account (default: 10000)
+  balance?: number;
+  // Subscribe the attached WebSocket to the quotes of traded epics (default: true)
+  subscribeQuotes?: boolean;
+}
+
+export interface BacktestConfig {
+  // Starting cash balance (default: 10000)
+  balance?: number;
+  // Account currency (default: 'USD')
+  currency?: string;
+  // Leverage per instrument type; margin is the deal value divided by it (default: DEFAULT_BACKTEST_LEVERAGES)
+  leverages?: Partial<Leverages>;
+  // Extra spread in points, split evenly around the historical bid and ask (default: 0)
+  spread?: number;
+  // Yearly overnight funding rate per instrument type, e.g. 0.05; charged on open positions at 22:00 UTC (default: none)
+  overnightFees?: Partial<Record<InstrumentType, number>>;
+}
+
+export type CredentialsProvider = () => SessionCredentials | Promise<SessionCredentials>;
+
 export interface CapitalAPIConfig {
   baseUrl?: string;
   demoMode?: boolean;
   apiKey?: string;
   timeout?: number;
+  // Re-create the session once and replay the request when it expires (401 / invalid session token)
+  autoRenewSession?: boolean;
+  // Credentials used for renewal; defaults to the ones passed to the last successful login
+  credentials?: SessionCredentials | CredentialsProvider;
+  // Track session age and ping `/api/v1/ping` while idle
+  sessionKeepAlive?: boolean | SessionKeepAliveConfig;
+  // Client-side request scheduling per endpoint class; enabled with published limits by default
+  rateLimit?: boolean | RateLimitConfig;
+  // Retry transient failures (5xx, 429, network errors) with exponential backoff
+  retry?: boolean | RetryConfig;
+  // Validate position and working order requests against the market's dealing rules before sending
+  preTradeValidation?: boolean | PreTradeValidationConfig;
+  // Simulate deals in a local book priced from live market data instead of sending them
+  paperTrading?: boolean | PaperTradingConfig;
 }
\ No newline at end of file
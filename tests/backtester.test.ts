@@ -0,0 +1,106 @@
+import { Backtester, BacktestContext } from '../src/Backtester';
+import { PriceSnapshot } from '../src/types';
+
+describe('Backtester', () => {
+  const bar = (time: string, open: number, high: number, low: number, close: number, spread = 1): PriceSnapshot => ({
+    snapshotTime: time,
+    snapshotTimeUTC: time,
+    openPrice: { bid: open, ask: open + spread },
+    highPrice: { bid: high, ask: high + spread },
+    lowPrice: { bid: low, ask: low + spread },
+    closePrice: { bid: close, ask: close + spread },
+    lastTradedVolume: 100
+  });
+
+  it('should fill stops and limits within bars and report trades, equity and drawdown', async () => {
+    const prices = {
+      instrumentType: 'COMMODITIES' as const,
+      // Out of order on purpose
+      prices: [
+        bar('2024-01-02T11:00:00', 2000, 2025, 1998, 2020),
+        bar('2024-01-02T10:00:00', 2000, 2005, 1995, 2000),
+        bar('2024-01-02T12:00:00', 2020, 2030, 2010, 2012),
+        bar('2024-01-02T13:00:00', 2012, 2013, 2000, 2005)
+      ]
+    };
+    const strategy = ({ candles, createPosition }: BacktestContext) => {
+      switch (candles.length) {
+        case 1:
+          return void createPosition({ epic: 'GOLD', direction: 'BUY', size: 1, stopDistance: 10, profitDistance: 20 });
+        case 2:
+          return void createPosition({ epic: 'GOLD', direction: 'SELL', size: 2, stopDistance: 5 });
+        case 3:
+          return void createPosition({ epic: 'GOLD', direction: 'BUY', size: 1 });
+      }
+    };
+
+    const result = await new Backtester().run({ epic: 'GOLD', resolution: 'HOUR', prices, strategy });
+
+    expect(result.trades.map(trade => [trade.direction, trade.openLevel, trade.closeLevel, trade.profitLoss, trade.closedBy])).toEqual([
+      ['BUY', 2001, 2025, 24, 'TP'],
+      // The high comes first in a falling bar and reaches the stop at the offer
+      ['SELL', 2020, 2031, -22, 'SL'],
+      ['BUY', 2013, 2005, -8, 'SYSTEM']
+    ]);
+    expect(result.trades[0]).toMatchObject({
+      openTime: Date.UTC(2024, 0, 2, 10, 45),
+      closeTime: Date.UTC(2024, 0, 2, 11, 30),
+      fees: 0
+    });
+    expect(result.equity.map(point => [point.equity, point.drawdown])).toEqual([[9999, 0], [10022, 0], [10001, 21], [9994, 28]]);
+    expect(result).toMatchObject({ startBalance: 10000, endBalance: 9994, netProfit: -6, maxDrawdown: 28 });
+    expect(result.maxDrawdownPercent).toBeCloseTo(0.2794, 4);
+    expect(result.winRate).toBeCloseTo(33.33, 2);
+  });
+
+  it('should hold margin per instrument type and charge overnight fees at each rollover', async () => {
+    const rate = (time: string) => bar(time, 1.1, 1.1, 1.1, 1.1, 0.0002);
+    const balances: number[] = [];
+    const backtester = new Backtester({ spread: 0.0002, overnightFees: { CURRENCIES: 0.0365 } });
+
+    const result = await backtester.run({
+      epic: 'EURUSD',
+      resolution: 'HOUR',
+      prices: [rate('2024-01-02T21:00:00'), rate('2024-01-02T22:00:00'), rate('2024-01-03T22:00:00')],
+      strategy: ({ candles, createPosition, getBalance }) => {
+        if (candles.length === 1) {
+          expect(createPosition({ epic: 'EURUSD', direction: 'BUY', size: 1000000 }))
+            .toMatchObject({ dealStatus: 'REJECTED', reason: 'INSUFFICIENT_FUNDS' });
+          expect(createPosition({ epic: 'EURUSD', direction: 'BUY', size: 10000 })).toMatchObject({ level: 1.1003 });
+          // 10000 * 1.1003 at 30:1
+          expect(getBalance().deposit).toBeCloseTo(366.77, 2);
+        }
+        balances.push(getBalance().balance);
+      }
+    });
+
+    // 10000 * 1.0999 * 0.0365 / 365 per night
+    expect(balances).toEqual([10000, 9998.9001, 9997.8002]);
+    expect(result.trades).toEqual([expect.objectContaining({ profitLoss: -4, fees: 2.1998 })]);
+    expect(result).toMatchObject({ endBalance: 9993.8002, fees: 2.1998, winRate: 0 });
+  });
+
+  it('should trigger working orders from an async feed', async () => {
+    async function* feed() {
+      yield bar('2024-01-02T10:00:00', 2000, 2002, 1998, 2000);
+      yield bar('2024-01-02T11:00:00', 1995, 2012, 1988, 2010);
+    }
+
+    const result = await new Backtester({ balance: 5000 }).run({
+      epic: 'GOLD',
+      resolution: 'HOUR',
+      instrumentType: 'COMMODITIES',
+      prices: feed(),
+      strategy: ({ candles, createWorkingOrder, getWorkingOrders }) => {
+        if (candles.length === 1) {
+          createWorkingOrder({ epic: 'GOLD', direction: 'BUY', size: 1, level: 1990, type: 'LIMIT', profitDistance: 10 });
+        } else {
+          expect(getWorkingOrders()).toEqual([]);
+        }
+      }
+    });
+
+    expect(result.trades).toEqual([expect.objectContaining({ openLevel: 1989, closeLevel: 2012, profitLoss: 23, closedBy: 'TP' })]);
+    expect(result).toMatchObject({ endBalance: 5023, winRate: 100 });
+  });
+});
@@ -558,7 +558,7 @@ describe('Real BTC Trading Tests', () => {
         if (quote.epic === btcEpic) {
           priceReceived = true;
           if (debugLogging) {
-            console.log(`📈 BTC price update: Bid ${quote.bid}, Offer ${quote.offer}`);
+            console.log(`📈 BTC price update: Bid ${quote.bid}, Offer ${quote.ofr}`);
           }
         }
       });
@@ -0,0 +1,166 @@
+import { EventEmitter } from 'events';
+import { CandleSeries, CandleFetcher } from '../src/CandleSeries';
+import { Candle, OHLCData } from '../src/types';
+
+describe('CandleSeries', () => {
+  const MINUTE = 60000;
+  const T0 = Date.UTC(2024, 0, 2, 10, 0);
+
+  const candle = (index: number, close: number, side: Candle['side'] = 'bid'): Candle => ({
+    epic: 'GOLD',
+    resolution: 'MINUTE',
+    side,
+    time: T0 + index * MINUTE,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 10
+  });
+
+  const ohlc = (index: number, c: number, priceType = 'bid', overrides: Partial<OHLCData> = {}): OHLCData => ({
+    resolution: 'MINUTE',
+    epic: 'GOLD',
+    type: 'classic',
+    priceType,
+    t: T0 + index * MINUTE,
+    o: c,
+    h: c,
+    l: c,
+    c,
+    ...overrides
+  });
+
+  const createWebSocket = (connected = true) => {
+    const ws = new EventEmitter() as any;
+    ws.isConnectedToServer = () => connected;
+    ws.subscribeToOHLCData = jest.fn(async () => ({}));
+    ws.unsubscribeFromOHLCData = jest.fn(async () => ({}));
+    return ws;
+  };
+
+  const record = (series: CandleSeries) => {
+    const events: string[] = [];
+    series.on('barUpdate', (bar: Candle) => events.push(`update ${(bar.time - T0) / MINUTE} ${bar.close}`));
+    series.on('barClose', (bar: Candle) => events.push(`close ${(bar.time - T0) / MINUTE} ${bar.close}`));
+    return events;
+  };
+
+  it('should backfill from REST and subscribe to the OHLC stream', async () => {
+    const fetch = jest.fn<ReturnType<CandleFetcher>, Parameters<CandleFetcher>>(async () => [candle(1, 101), candle(0, 100)]);
+    const series = new CandleSeries(fetch, { epic: 'GOLD', resolution: 'MINUTE', backfill: 50 });
+    const ws = createWebSocket();
+
+    await series.start(ws);
+
+    expect(fetch).toHaveBeenCalledWith('GOLD', { resolution: 'MINUTE', max: 50, side: 'bid' });
+    expect(series.getCandles().map(c => c.close)).toEqual([100, 101]);
+    expect(ws.subscribeToOHLCData).toHaveBeenCalledWith(['GOLD'], ['MINUTE']);
+
+    series.stop();
+    expect(ws.unsubscribeFromOHLCData).toHaveBeenCalledWith(['GOLD'], ['MINUTE']);
+    expect(ws.listenerCount('ohlc')).toBe(0);
+  });
+
+  it('should update the in-progress bar and append closed ones', async () => {
+    const series = new CandleSeries(async () => [candle(0, 100)], { epic: 'GOLD', resolution: 'MINUTE' });
+    const events = record(series);
+    const ws = createWebSocket();
+    await series.start(ws);
+
+    ws.emit('ohlc', ohlc(0, 100.5));
+    ws.emit('ohlc', ohlc(1, 101));
+    ws.emit('ohlc', ohlc(1, 101.5));
+    // Other sides, epics, resolutions and stale bars are ignored
+    ws.emit('ohlc', ohlc(1, 999, 'ask'));
+    ws.emit('ohlc', ohlc(1, 999, 'bid', { epic: 'SILVER' }));
+    ws.emit('ohlc', ohlc(1, 999, 'bid', { resolution: 'HOUR' }));
+    ws.emit('ohlc', ohlc(0, 999));
+
+    expect(events).toEqual(['update 0 100.5', 'close 0 100.5', 'update 1 101', 'update 1 101.5']);
+    expect(series.getCandles().map(c => c.close)).toEqual([100.5, 101.5]);
+    // The REST volume survives streamed updates
+    expect(series.getCandles()[0].volume).toBe(10);
+    expect(series.getCurrentBar()?.volume).toBeUndefined();
+  });
+
+  it('should combine streamed bid and ask bars for mid series', async () => {
+    const series = new CandleSeries(async () => [], { epic: 'GOLD', resolution: 'MINUTE', side: 'mid' });
+    const events = record(series);
+    const ws = createWebSocket();
+    await series.start(ws);
+
+    ws.emit('ohlc', ohlc(0, 100, 'bid'));
+    ws.emit('ohlc', ohlc(0, 102, 'ask'));
+    ws.emit('ohlc', ohlc(0, 104, 'ask'));
+
+    expect(events).toEqual(['update 0 101', 'update 0 102']);
+    expect(series.getCurrentBar()?.side).toBe('mid');
+  });
+
+  it('should re-fetch the gap after a reconnect', async () => {
+    const fetch = jest.fn<ReturnType<CandleFetcher>, Parameters<CandleFetcher>>()
+      .mockResolvedValueOnce([candle(0, 100), candle(1, 101)])
+      .mockResolvedValueOnce([candle(1, 101.5), candle(2, 102), candle(3, 103)]);
+    const series = new CandleSeries(fetch, { epic: 'GOLD', resolution: 'MINUTE' });
+    const events = record(series);
+    const ws = createWebSocket();
+    await series.start(ws);
+
+    ws.emit('disconnect');
+    ws.emit('connect');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(fetch).toHaveBeenLastCalledWith('GOLD', expect.objectContaining({ from: '2024-01-02T10:01:00', max: 1000 }));
+    expect(events).toEqual([
+      'update 1 101.5',
+      'close 1 101.5',
+      'update 2 102',
+      'close 2 102',
+      'update 3 103'
+    ]);
+    expect(series.getCandles().map(c => c.close)).toEqual([100, 101.5, 102, 103]);
+  });
+
+  it('should subscribe once the connection opens', async () => {
+    const series = new CandleSeries(async () => [], { epic: 'GOLD', resolution: 'MINUTE' });
+    const ws = createWebSocket(false);
+    await series.start(ws);
+    expect(ws.subscribeToOHLCData).not.toHaveBeenCalled();
+
+    ws.emit('connect');
+    expect(ws.subscribeToOHLCData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failures on connect only to error listeners', async () => {
+    const fetch = jest.fn<ReturnType<CandleFetcher>, Parameters<CandleFetcher>>()
+      .mockResolvedValueOnce([candle(0, 100)])
+      .mockRejectedValue(new Error('fetch failed'));
+    const series = new CandleSeries(fetch, { epic: 'GOLD', resolution: 'MINUTE' });
+    const ws = createWebSocket(false);
+    ws.subscribeToOHLCData.mockRejectedValue(new Error('limit reached'));
+    await series.start(ws);
+
+    expect(() => ws.emit('connect')).not.toThrow();
+    ws.emit('disconnect');
+    ws.emit('connect');
+    await new Promise(resolve => setImmediate(resolve));
+
+    const errors: Error[] = [];
+    series.on('error', (error: Error) => errors.push(error));
+    ws.emit('disconnect');
+    ws.emit('connect');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(errors.map(error => error.message).sort()).toEqual(['fetch failed', 'limit reached']);
+  });
+
+  it('should keep at most maxBars bars', async () => {
+    const series = new CandleSeries(async () => [candle(0, 100), candle(1, 101)], { epic: 'GOLD', resolution: 'MINUTE', maxBars: 2 });
+    const ws = createWebSocket();
+    await series.start(ws);
+
+    ws.emit('ohlc', ohlc(2, 102));
+    expect(series.getCandles().map(c => c.close)).toEqual([101, 102]);
+  });
+});
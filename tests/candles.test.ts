@@ -0,0 +1,108 @@
+import {
+  selectPrice,
+  priceSnapshotToCandle,
+  historicalPricesToCandles,
+  ohlcToCandle,
+  toMidCandle
+} from '../src/candles';
+import { CapitalAPI } from '../src/CapitalAPI';
+import { OHLCData, PriceSnapshot } from '../src/types';
+
+describe('Candles', () => {
+  const snapshot = (time: string, bid: number): PriceSnapshot => ({
+    snapshotTime: time,
+    snapshotTimeUTC: time,
+    openPrice: { bid, ask: bid + 0.2 },
+    highPrice: { bid: bid + 1, ask: bid + 1.2 },
+    lowPrice: { bid: bid - 1, ask: bid - 0.8 },
+    closePrice: { bid: bid + 0.5, ask: bid + 0.7 },
+    lastTradedVolume: 42
+  });
+
+  const ohlc = (priceType: string, o: number): OHLCData => ({
+    resolution: 'MINUTE',
+    epic: 'GOLD',
+    type: 'classic',
+    priceType,
+    t: 1704103200000,
+    o,
+    h: o + 1,
+    l: o - 1,
+    c: o + 0.5
+  });
+
+  it('should select bid, ask or mid prices', () => {
+    expect(selectPrice({ bid: 10, ask: 12 }, 'bid')).toBe(10);
+    expect(selectPrice({ bid: 10, ask: 12 }, 'ask')).toBe(12);
+    expect(selectPrice({ bid: 10, ask: 12 }, 'mid')).toBe(11);
+  });
+
+  it('should convert REST price snapshots', () => {
+    expect(priceSnapshotToCandle(snapshot('2024-01-01T10:00:00', 2000), { epic: 'GOLD', resolution: 'HOUR' })).toEqual({
+      epic: 'GOLD',
+      resolution: 'HOUR',
+      side: 'bid',
+      time: Date.UTC(2024, 0, 1, 10),
+      open: 2000,
+      high: 2001,
+      low: 1999,
+      close: 2000.5,
+      volume: 42
+    });
+
+    const ask = priceSnapshotToCandle(snapshot('2024-01-01T10:00:00', 2000), { epic: 'GOLD', resolution: 'HOUR', side: 'ask' });
+    expect([ask.side, ask.open, ask.close]).toEqual(['ask', 2000.2, 2000.7]);
+  });
+
+  it('should convert historical price responses in time order', () => {
+    const candles = historicalPricesToCandles({
+      instrumentType: 'COMMODITIES',
+      prices: [snapshot('2024-01-01T11:00:00', 2010), snapshot('2024-01-01T10:00:00', 2000)]
+    }, { epic: 'GOLD', resolution: 'HOUR', side: 'mid' });
+
+    expect(candles.map(c => c.time)).toEqual([Date.UTC(2024, 0, 1, 10), Date.UTC(2024, 0, 1, 11)]);
+    expect(candles[0].open).toBeCloseTo(2000.1);
+  });
+
+  it('should convert streamed ohlc events', () => {
+    expect(ohlcToCandle(ohlc('bid', 2000))).toEqual({
+      epic: 'GOLD',
+      resolution: 'MINUTE',
+      side: 'bid',
+      time: 1704103200000,
+      open: 2000,
+      high: 2001,
+      low: 1999,
+      close: 2000.5
+    });
+    expect(ohlcToCandle(ohlc('ASK', 2000)).side).toBe('ask');
+    expect(() => ohlcToCandle(ohlc('last', 2000))).toThrow('Invalid OHLC price type');
+  });
+
+  it('should combine bid and ask candles into mid candles', () => {
+    const mid = toMidCandle(ohlcToCandle(ohlc('bid', 2000)), ohlcToCandle(ohlc('ask', 2002)));
+    expect(mid).toMatchObject({ side: 'mid', open: 2001, high: 2002, low: 2000, close: 2001.5 });
+
+    expect(() => toMidCandle(ohlcToCandle(ohlc('bid', 2000)), { ...ohlcToCandle(ohlc('ask', 2002)), time: 0 }))
+      .toThrow('Cannot combine candles');
+  });
+
+  it('should fetch candles through CapitalAPI', async () => {
+    const api = new CapitalAPI({ rateLimit: false });
+    let params: any;
+    (api as any).client.defaults.adapter = async (config: any) => {
+      params = config.params;
+      return {
+        data: { instrumentType: 'COMMODITIES', prices: [snapshot('2024-01-01T10:00:00', 2000)] },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config
+      };
+    };
+
+    const candles = await api.getCandles('GOLD', { resolution: 'HOUR', max: 10, side: 'ask' });
+    expect(params).toEqual({ resolution: 'HOUR', max: 10 });
+    expect(candles).toEqual([expect.objectContaining({ epic: 'GOLD', resolution: 'HOUR', side: 'ask', open: 2000.2 })]);
+  });
+});
@@ -0,0 +1,93 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CapitalAPI } from '../src/CapitalAPI';
+import { CapitalWebSocketConfig } from '../src/CapitalWebSocket';
+import { NotFoundError } from '../src/errors';
+import { QuoteData } from '../src/types';
+import { CassettePlayer, CassetteRecorder, MockCapitalServer, REDACTED } from '../src/testing';
+
+// Recording runs against the mock server, which needs the real WebSocketServer
+jest.unmock('ws');
+
+describe('Cassettes', () => {
+  let directory: string;
+  let file: string;
+
+  // The session both the recording and the replays go through
+  const session = async (api: CapitalAPI, socket: Pick<CapitalWebSocketConfig, 'streamingUrl' | 'createSocket'>) => {
+    await api.createSession({ identifier: 'trader', password: 'secret' });
+    const accounts = await api.getAllAccounts();
+    const opened = await api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 1 });
+    const missing = await api.getMarketDetails('NOPE').catch(error => error);
+
+    const ws = api.createWebSocketConnection({ ...socket, reconnect: false });
+    await ws.connect();
+    const quote = new Promise<QuoteData>(resolve => ws.once('quote', resolve));
+    const subscription = await ws.subscribeToMarketData(['GOLD']);
+    return { accounts, opened, missing, subscription, quote };
+  };
+  let recorded: Awaited<ReturnType<typeof session>>;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'cassette-'));
+    file = join(directory, 'session.json');
+
+    const server = new MockCapitalServer({ markets: [{ epic: 'GOLD', type: 'COMMODITIES', bid: 2000, offer: 2001 }] });
+    await server.start();
+    const recorder = new CassetteRecorder();
+    const api = new CapitalAPI({ baseUrl: server.url, apiKey: server.apiKey, rateLimit: false });
+    recorder.attach(api);
+
+    recorded = await session(api, { streamingUrl: server.streamingUrl, createSocket: recorder.createSocket });
+    server.setPrice('GOLD', 2002, 2003);
+    await recorded.quote;
+
+    recorder.save(file);
+    api.disconnectWebSocket();
+    await server.stop();
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write cassettes without credentials', () => {
+    const text = readFileSync(file, 'utf8');
+    expect(text).not.toContain('mock-api-key');
+    expect(text).not.toContain('secret');
+
+    const cassette = JSON.parse(text);
+    const login = cassette.interactions[0];
+    expect(login.request).toEqual({ method: 'POST', url: '/api/v1/session', body: { identifier: 'trader', password: REDACTED } });
+    expect(login.response.headers).toMatchObject({ cst: REDACTED, 'x-security-token': REDACTED });
+    expect(cassette.streams[0][0]).toMatchObject({ direction: 'sent', message: { destination: 'marketData.subscribe', cst: REDACTED } });
+  });
+
+  it('should replay the session offline', async () => {
+    const player = CassettePlayer.load(file);
+    const api = new CapitalAPI({ baseUrl: 'http://replay.invalid', apiKey: 'replay-key', rateLimit: false });
+    player.attach(api);
+
+    const replayed = await session(api, { createSocket: player.createSocket });
+
+    expect(replayed.accounts).toEqual(recorded.accounts);
+    expect(replayed.opened).toEqual(recorded.opened);
+    expect(replayed.missing).toBeInstanceOf(NotFoundError);
+    expect(replayed.subscription).toMatchObject({ correlationId: '1', succeeded: ['GOLD'], failed: [] });
+    expect(await replayed.quote).toEqual(await recorded.quote);
+    expect(player.getUnserved()).toEqual([]);
+    api.disconnectWebSocket();
+  });
+
+  it('should fail requests the cassette did not record', async () => {
+    const player = CassettePlayer.load(file);
+    const api = new CapitalAPI({ baseUrl: 'http://replay.invalid', apiKey: 'replay-key', rateLimit: false });
+    player.attach(api);
+    await api.createSession({ identifier: 'trader', password: 'secret' });
+
+    await expect(api.getAllPositions()).rejects.toThrow('Cassette has no unserved response for GET /api/v1/positions');
+    await expect(api.getAllAccounts()).resolves.toEqual(recorded.accounts);
+    await expect(api.getAllAccounts()).rejects.toThrow('GET /api/v1/accounts');
+  });
+});
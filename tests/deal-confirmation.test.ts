@@ -0,0 +1,120 @@
+import { CapitalAPI } from '../src/CapitalAPI';
+import {
+  DealConfirmationTimeoutError,
+  DealRejectedError,
+  ValidationError
+} from '../src/errors';
+
+describe('Deal Confirmation Polling', () => {
+  const confirmation = (dealStatus: string) => ({
+    date: '2024-01-01T10:00:00.000',
+    status: dealStatus === 'REJECTED' ? 'REJECTED' : 'OPEN',
+    dealStatus,
+    epic: 'GOLD',
+    dealReference: 'o_ref',
+    dealId: 'DEAL_1',
+    affectedDeals: [{ dealId: 'DEAL_1', status: 'OPENED' }],
+    level: 2000,
+    size: 1,
+    direction: 'BUY',
+    guaranteedStop: false,
+    trailingStop: false
+  });
+
+  // Routes requests to handlers keyed by "METHOD url"; unknown confirms answer 404
+  const createApi = (routes: Record<string, Array<() => { status: number; data: any }>>) => {
+    const api = new CapitalAPI({ rateLimit: false });
+    const calls: string[] = [];
+    (api as any).client.defaults.adapter = async (config: any) => {
+      const key = `${config.method.toUpperCase()} ${config.url}`;
+      calls.push(key);
+      const handler = routes[key]?.shift();
+      const { status, data } = handler ? handler() : { status: 404, data: { errorCode: 'error.not-found.dealReference' } };
+      if (status >= 400) {
+        throw Object.assign(new Error(`Request failed with status code ${status}`), {
+          isAxiosError: true,
+          config,
+          response: { status, data, headers: {}, config }
+        });
+      }
+      return { data, status, statusText: 'OK', headers: {}, config };
+    };
+    return { api, calls };
+  };
+
+  it('should poll until the confirmation is available', async () => {
+    const { api, calls } = createApi({
+      'POST /api/v1/positions': [() => ({ status: 200, data: { dealReference: 'o_ref' } })],
+      'GET /api/v1/confirms/o_ref': [
+        () => ({ status: 404, data: { errorCode: 'error.not-found.dealReference' } }),
+        () => ({ status: 404, data: { errorCode: 'error.not-found.dealReference' } }),
+        () => ({ status: 200, data: confirmation('ACCEPTED') })
+      ]
+    });
+
+    const result = await api.createPositionAndConfirm(
+      { epic: 'GOLD', direction: 'BUY', size: 1 },
+      { initialDelay: 1 }
+    );
+
+    expect(result.dealId).toBe('DEAL_1');
+    expect(result.dealStatus).toBe('ACCEPTED');
+    expect(calls).toEqual([
+      'POST /api/v1/positions',
+      'GET /api/v1/confirms/o_ref',
+      'GET /api/v1/confirms/o_ref',
+      'GET /api/v1/confirms/o_ref'
+    ]);
+  });
+
+  it('should reject with DealRejectedError for rejected deals', async () => {
+    const { api } = createApi({
+      'POST /api/v1/workingorders': [() => ({ status: 200, data: { dealReference: 'o_ref' } })],
+      'GET /api/v1/confirms/o_ref': [() => ({ status: 200, data: confirmation('REJECTED') })]
+    });
+
+    const error = await api.createWorkingOrderAndConfirm({
+      epic: 'GOLD',
+      direction: 'BUY',
+      size: 1,
+      level: 1800,
+      type: 'LIMIT'
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(DealRejectedError);
+    expect(error.confirmation.dealReference).toBe('o_ref');
+  });
+
+  it('should time out when no confirmation arrives', async () => {
+    const { api } = createApi({});
+
+    const error = await api.waitForDealConfirmation('o_missing', { timeout: 50, initialDelay: 5 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(DealConfirmationTimeoutError);
+    expect(error.dealReference).toBe('o_missing');
+  });
+
+  it('should not poll when the deal request itself fails', async () => {
+    const { api, calls } = createApi({
+      'DELETE /api/v1/positions/DEAL_1': [() => ({ status: 400, data: { errorCode: 'error.invalid.dealId' } })]
+    });
+
+    await expect(api.closePositionAndConfirm('DEAL_1')).rejects.toBeInstanceOf(ValidationError);
+    expect(calls).toEqual(['DELETE /api/v1/positions/DEAL_1']);
+  });
+
+  it('should confirm updates, closes and order deletions', async () => {
+    const accepted = () => ({ status: 200, data: confirmation('ACCEPTED') });
+    const reference = () => ({ status: 200, data: { dealReference: 'o_ref' } });
+    const { api } = createApi({
+      'PUT /api/v1/positions/DEAL_1': [reference],
+      'PUT /api/v1/workingorders/ORDER_1': [reference],
+      'DELETE /api/v1/workingorders/ORDER_1': [reference],
+      'GET /api/v1/confirms/o_ref': [accepted, accepted, accepted]
+    });
+
+    await expect(api.updatePositionAndConfirm('DEAL_1', { stopLevel: 1900 })).resolves.toMatchObject({ dealId: 'DEAL_1' });
+    await expect(api.updateWorkingOrderAndConfirm('ORDER_1', { level: 1850 })).resolves.toMatchObject({ dealId: 'DEAL_1' });
+    await expect(api.deleteWorkingOrderAndConfirm('ORDER_1')).resolves.toMatchObject({ dealId: 'DEAL_1' });
+  });
+});
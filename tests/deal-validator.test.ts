@@ -0,0 +1,187 @@
+import { DealValidator, validateDealRequest } from '../src/DealValidator';
+import { CapitalAPI } from '../src/CapitalAPI';
+import { DealValidationError, ValidationError } from '../src/errors';
+import { MarketDetailsResponse } from '../src/types';
+
+describe('Pre-trade Deal Validation', () => {
+  const market = (overrides: any = {}): MarketDetailsResponse => ({
+    instrument: {
+      epic: 'GOLD',
+      symbol: 'Gold',
+      expiry: '-',
+      name: 'Gold',
+      lotSize: 1,
+      type: 'COMMODITIES',
+      guaranteedStopAllowed: true,
+      streamingPricesAvailable: true,
+      currency: 'USD',
+      marginFactor: 5,
+      marginFactorUnit: 'PERCENTAGE',
+      openingHours: null,
+      overnightFee: null,
+      ...overrides.instrument
+    },
+    dealingRules: {
+      minStepDistance: { unit: 'POINTS', value: 0.01 },
+      minDealSize: { unit: 'POINTS', value: 0.1 },
+      maxDealSize: { unit: 'POINTS', value: 100 },
+      minSizeIncrement: { unit: 'POINTS', value: 0.1 },
+      minGuaranteedStopDistance: { unit: 'PERCENTAGE', value: 1 },
+      minStopOrProfitDistance: { unit: 'POINTS', value: 5 },
+      maxStopOrProfitDistance: { unit: 'PERCENTAGE', value: 50 },
+      marketOrderPreference: 'AVAILABLE_DEFAULT_ON',
+      trailingStopsPreference: 'AVAILABLE',
+      ...overrides.dealingRules
+    },
+    snapshot: {
+      marketStatus: 'TRADEABLE',
+      netChange: 0,
+      percentageChange: 0,
+      updateTime: '2024-01-01T10:00:00',
+      delayTime: 0,
+      bid: 1999,
+      offer: 2000,
+      high: 2010,
+      low: 1990,
+      decimalPlacesFactor: 2,
+      scalingFactor: 1,
+      marketModes: ['REGULAR']
+    }
+  });
+
+  const rules = (result: ReturnType<typeof validateDealRequest>) => result.violations.map(v => v.rule);
+
+  describe('validateDealRequest', () => {
+    it('should accept a request within the dealing rules', () => {
+      const result = validateDealRequest(
+        { epic: 'GOLD', direction: 'BUY', size: 1.5, stopLevel: 1950, profitDistance: 100 },
+        market()
+      );
+      expect(result).toEqual({ valid: true, violations: [] });
+    });
+
+    it('should check size limits and increments', () => {
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 0.05 }, market()))).toEqual(['minDealSize', 'minSizeIncrement']);
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 150 }, market()))).toEqual(['maxDealSize']);
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 1.25 }, market()))).toEqual(['minSizeIncrement']);
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 0 }, market()))).toEqual(['positiveSize']);
+    });
+
+    it('should report structured details for each violation', () => {
+      const [violation] = validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 150 }, market()).violations;
+      expect(violation).toEqual({
+        field: 'size',
+        rule: 'maxDealSize',
+        message: 'Size 150 exceeds the maximum deal size of 100',
+        value: 150,
+        limit: 100
+      });
+    });
+
+    it('should check stop and profit distances in points and percentages', () => {
+      // BUY enters at the offer (2000): stop 1998 is only 2 points away
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 1, stopLevel: 1998 }, market()))).toEqual(['minStopOrProfitDistance']);
+      // 50% of 2000 = 1000 points maximum
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 1, profitDistance: 1200 }, market()))).toEqual(['maxStopOrProfitDistance']);
+      // SELL enters at the bid (1999)
+      expect(validateDealRequest({ epic: 'GOLD', direction: 'SELL', size: 1, stopLevel: 2010, profitLevel: 1900 }, market()).valid).toBe(true);
+    });
+
+    it('should detect stop and profit levels on the wrong side', () => {
+      const result = validateDealRequest(
+        { epic: 'GOLD', direction: 'BUY', size: 1, stopLevel: 2050, profitLevel: 1950 },
+        market()
+      );
+      expect(rules(result)).toEqual(['levelSide', 'levelSide']);
+      expect(result.violations.map(v => v.field)).toEqual(['stop', 'profit']);
+    });
+
+    it('should measure working order distances from the order level', () => {
+      const order = { epic: 'GOLD', direction: 'BUY' as const, size: 1, level: 1800, type: 'LIMIT' as const, stopLevel: 1797 };
+      expect(rules(validateDealRequest(order, market()))).toEqual(['minStopOrProfitDistance']);
+      expect(validateDealRequest({ ...order, stopLevel: 1790 }, market()).valid).toBe(true);
+    });
+
+    it('should check guaranteed stops', () => {
+      // 1% of 2000 = 20 points minimum
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 1, guaranteedStop: true, stopDistance: 10 }, market())))
+        .toEqual(['minGuaranteedStopDistance']);
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 1, guaranteedStop: true }, market())))
+        .toEqual(['guaranteedStopRequiresStop']);
+      expect(rules(validateDealRequest(
+        { epic: 'GOLD', direction: 'BUY', size: 1, guaranteedStop: true, stopDistance: 30 },
+        market({ instrument: { guaranteedStopAllowed: false } })
+      ))).toEqual(['guaranteedStopAllowed']);
+    });
+
+    it('should check the trailing stop preference', () => {
+      expect(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 1, trailingStop: true, stopDistance: 10 }, market()).valid).toBe(true);
+      expect(rules(validateDealRequest(
+        { epic: 'GOLD', direction: 'BUY', size: 1, trailingStop: true, stopDistance: 10 },
+        market({ dealingRules: { trailingStopsPreference: 'NOT_AVAILABLE' } })
+      ))).toEqual(['trailingStopsPreference']);
+      expect(rules(validateDealRequest({ epic: 'GOLD', direction: 'BUY', size: 1, trailingStop: true, stopLevel: 1950 }, market())))
+        .toEqual(['trailingStopRequiresDistance']);
+    });
+  });
+
+  describe('DealValidator', () => {
+    it('should cache market details per epic', async () => {
+      const fetch = jest.fn(async () => market());
+      const validator = new DealValidator(fetch);
+
+      await validator.validate({ epic: 'GOLD', direction: 'BUY', size: 1 });
+      await validator.validate({ epic: 'GOLD', direction: 'SELL', size: 2 });
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      validator.clearCache('GOLD');
+      await validator.validate({ epic: 'GOLD', direction: 'BUY', size: 1 });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch after the cache TTL', async () => {
+      const fetch = jest.fn(async () => market());
+      const validator = new DealValidator(fetch, 0);
+
+      await validator.validate({ epic: 'GOLD', direction: 'BUY', size: 1 });
+      await validator.validate({ epic: 'GOLD', direction: 'BUY', size: 1 });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('CapitalAPI integration', () => {
+    const createApi = (preTradeValidation: boolean) => {
+      const api = new CapitalAPI({ rateLimit: false, preTradeValidation });
+      const calls: string[] = [];
+      (api as any).client.defaults.adapter = async (config: any) => {
+        calls.push(`${config.method.toUpperCase()} ${config.url}`);
+        const data = config.url === '/api/v1/markets/GOLD' ? market() : { dealReference: 'o_ref' };
+        return { data, status: 200, statusText: 'OK', headers: {}, config };
+      };
+      return { api, calls };
+    };
+
+    it('should reject invalid deals before sending them', async () => {
+      const { api, calls } = createApi(true);
+
+      const error = await api.createPosition({ epic: 'GOLD', direction: 'BUY', size: 0.05 }).catch(e => e);
+      expect(error).toBeInstanceOf(DealValidationError);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.violations.map((v: any) => v.rule)).toEqual(['minDealSize', 'minSizeIncrement']);
+      expect(calls).toEqual(['GET /api/v1/markets/GOLD']);
+
+      await api.createWorkingOrder({ epic: 'GOLD', direction: 'BUY', size: 1, level: 1800, type: 'LIMIT' });
+      expect(calls).toEqual(['GET /api/v1/markets/GOLD', 'POST /api/v1/workingorders']);
+    });
+
+    it('should expose validation without enabling it for every deal', async () => {
+      const { api, calls } = createApi(false);
+
+      const result = await api.validatePosition({ epic: 'GOLD', direction: 'BUY', size: 0.05 });
+      expect(result.valid).toBe(false);
+
+      await api.createPosition({ epic: 'GOLD', direction: 'BUY', size: 0.05 });
+      expect(calls).toEqual(['GET /api/v1/markets/GOLD', 'POST /api/v1/positions']);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { generateKeyPairSync, privateDecrypt, publicEncrypt, constants } from 'crypto';
+import {
+  encryptPassword,
+  parseRSAPublicKey,
+  rsaEncryptPKCS1v15,
+  base64ToBytes
+} from '../src/encryption';
+
+describe('Password Encryption', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+  const spkiBase64 = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+  const pkcs1Base64 = publicKey.export({ type: 'pkcs1', format: 'der' }).toString('base64');
+  const spkiPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const jwk = publicKey.export({ format: 'jwk' });
+
+  // Deterministic padding source: 0x00, 0x01, 0x02, ... continuing across calls (zeros must be skipped)
+  const countingBytes = (): ((length: number) => Uint8Array) => {
+    let counter = 0;
+    return (length: number) => {
+      const bytes = new Uint8Array(length);
+      for (let i = 0; i < length; i++) {
+        bytes[i] = counter++ & 0xff;
+      }
+      return bytes;
+    };
+  };
+
+  const decryptRaw = (ciphertextBase64: string): Buffer =>
+    privateDecrypt(
+      { key: privateKey, padding: constants.RSA_NO_PADDING },
+      Buffer.from(ciphertextBase64, 'base64')
+    );
+
+  describe('parseRSAPublicKey', () => {
+    const expectedModulus = BigInt('0x' + Buffer.from(jwk.n as string, 'base64url').toString('hex'));
+
+    it('should parse an X.509 SubjectPublicKeyInfo key', () => {
+      const key = parseRSAPublicKey(spkiBase64);
+      expect(key.modulus).toBe(expectedModulus);
+      expect(key.exponent).toBe(BigInt(65537));
+      expect(key.byteLength).toBe(128);
+    });
+
+    it('should parse a PKCS#1 RSAPublicKey', () => {
+      const key = parseRSAPublicKey(pkcs1Base64);
+      expect(key.modulus).toBe(expectedModulus);
+      expect(key.exponent).toBe(BigInt(65537));
+    });
+
+    it('should accept PEM-wrapped keys', () => {
+      expect(parseRSAPublicKey(spkiPem).modulus).toBe(expectedModulus);
+    });
+
+    it('should reject malformed keys', () => {
+      expect(() => parseRSAPublicKey('')).toThrow('Invalid public key');
+      expect(() => parseRSAPublicKey('bm90LWEta2V5')).toThrow('Invalid public key');
+    });
+  });
+
+  describe('rsaEncryptPKCS1v15', () => {
+    it('should produce a valid PKCS#1 v1.5 type 2 block', () => {
+      const key = parseRSAPublicKey(spkiBase64);
+      const message = new Uint8Array([1, 2, 3, 4]);
+      const cipher = rsaEncryptPKCS1v15(key, message, countingBytes());
+      const block = privateDecrypt({ key: privateKey, padding: constants.RSA_NO_PADDING }, Buffer.from(cipher));
+
+      expect(block.length).toBe(128);
+      expect(block[0]).toBe(0x00);
+      expect(block[1]).toBe(0x02);
+      const padding = block.subarray(2, 128 - message.length - 1);
+      expect(padding.includes(0)).toBe(false);
+      expect(block[128 - message.length - 1]).toBe(0x00);
+      expect(Array.from(block.subarray(128 - message.length))).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should be deterministic for a fixed random source', () => {
+      const key = parseRSAPublicKey(spkiBase64);
+      const message = new Uint8Array([9, 8, 7]);
+      const first = rsaEncryptPKCS1v15(key, message, countingBytes());
+      const second = rsaEncryptPKCS1v15(key, message, countingBytes());
+      expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true);
+
+      // Matches a raw RSA encryption of the same encoded block by Node itself
+      const block = privateDecrypt({ key: privateKey, padding: constants.RSA_NO_PADDING }, Buffer.from(first));
+      const expected = publicEncrypt({ key: publicKey, padding: constants.RSA_NO_PADDING }, block);
+      expect(Buffer.from(first).equals(expected)).toBe(true);
+    });
+
+    it('should reject messages longer than the key allows', () => {
+      const key = parseRSAPublicKey(spkiBase64);
+      expect(() => rsaEncryptPKCS1v15(key, new Uint8Array(118))).toThrow('Message too long');
+    });
+  });
+
+  describe('encryptPassword', () => {
+    it('should encrypt base64(password|timestamp) with the public key', () => {
+      const encrypted = encryptPassword(spkiBase64, 1700000000000, 'p@ssw0rd', countingBytes());
+      const block = decryptRaw(encrypted);
+      const separator = block.indexOf(0, 2);
+      const payload = block.subarray(separator + 1).toString('latin1');
+
+      expect(Buffer.from(payload, 'base64').toString('utf8')).toBe('p@ssw0rd|1700000000000');
+    });
+
+    it('should use fresh random padding by default', () => {
+      const first = encryptPassword(spkiBase64, 1700000000000, 'secret');
+      const second = encryptPassword(spkiBase64, 1700000000000, 'secret');
+
+      expect(first).not.toBe(second);
+      expect(base64ToBytes(first).length).toBe(128);
+      expect(decryptRaw(first).subarray(-28).equals(decryptRaw(second).subarray(-28))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CapitalAPI } from '../src/CapitalAPI';
+import {
+  CapitalApiError,
+  AuthenticationError,
+  RateLimitError,
+  ValidationError,
+  NotFoundError,
+  NetworkError,
+  toCapitalApiError,
+  parseRetryAfter
+} from '../src/errors';
+
+describe('Typed API Errors', () => {
+  describe('toCapitalApiError', () => {
+    const axiosError = (status: number, data?: any, headers: any = {}) => ({
+      isAxiosError: true,
+      message: `Request failed with status code ${status}`,
+      config: { url: '/api/v1/positions', method: 'post' },
+      response: { status, data, headers }
+    });
+
+    it('should map HTTP statuses to error classes', () => {
+      expect(toCapitalApiError(axiosError(400, { errorCode: 'error.invalid.size' }))).toBeInstanceOf(ValidationError);
+      expect(toCapitalApiError(axiosError(401))).toBeInstanceOf(AuthenticationError);
+      expect(toCapitalApiError(axiosError(403))).toBeInstanceOf(AuthenticationError);
+      expect(toCapitalApiError(axiosError(404))).toBeInstanceOf(NotFoundError);
+      expect(toCapitalApiError(axiosError(429))).toBeInstanceOf(RateLimitError);
+      expect(toCapitalApiError(axiosError(500))).toBeInstanceOf(CapitalApiError);
+    });
+
+    it('should treat invalid session tokens as authentication errors', () => {
+      const error = toCapitalApiError(axiosError(400, { errorCode: 'error.invalid.session.token' }));
+      expect(error).toBeInstanceOf(AuthenticationError);
+    });
+
+    it('should carry request and response details', () => {
+      const original = axiosError(400, { errorCode: 'error.invalid.size' }, { 'x-request-id': 'req-1' });
+      const error = toCapitalApiError(original);
+
+      expect(error.message).toBe('API Error (400): error.invalid.size');
+      expect(error.status).toBe(400);
+      expect(error.errorCode).toBe('error.invalid.size');
+      expect(error.endpoint).toBe('/api/v1/positions');
+      expect(error.method).toBe('POST');
+      expect(error.requestId).toBe('req-1');
+      expect(error.cause).toBe(original);
+      expect(error.name).toBe('ValidationError');
+      expect(error).toBeInstanceOf(Error);
+    });
+
+    it('should parse Retry-After on rate limit errors', () => {
+      const error = toCapitalApiError(axiosError(429, undefined, { 'retry-after': '2' })) as RateLimitError;
+      expect(error.retryAfter).toBe(2000);
+    });
+
+    it('should map errors without a response to NetworkError', () => {
+      const error = toCapitalApiError({ isAxiosError: true, code: 'ECONNRESET', message: 'socket hang up' }, 'get', '/api/v1/markets');
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('Network Error: ECONNRESET: socket hang up');
+      expect(error.method).toBe('GET');
+      expect(error.endpoint).toBe('/api/v1/markets');
+    });
+
+    it('should leave CapitalApiError instances untouched', () => {
+      const error = new NotFoundError('missing');
+      expect(toCapitalApiError(error)).toBe(error);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should accept seconds and HTTP dates', () => {
+      expect(parseRetryAfter('1.5')).toBe(1500);
+      expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(50000);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('CapitalAPI HTTP helpers', () => {
+    let server: http.Server;
+    let api: CapitalAPI;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/api/v1/session' && req.method === 'POST') {
+          res.statusCode = 400;
+          res.end(JSON.stringify({ errorCode: 'error.invalid.details' }));
+        } else if (req.url?.startsWith('/api/v1/markets/')) {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ errorCode: 'error.not-found.epic' }));
+        } else if (req.url === '/api/v1/positions') {
+          res.statusCode = 429;
+          res.setHeader('Retry-After', '1');
+          res.end(JSON.stringify({ errorCode: 'error.too-many.requests' }));
+        } else {
+          res.statusCode = 401;
+          res.end(JSON.stringify({ errorCode: 'error.invalid.session.token' }));
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      api = new CapitalAPI({
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        apiKey: 'key'
+      });
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should raise typed errors from every helper', async () => {
+      await expect(api.getMarketDetails('UNKNOWN')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(api.createPosition({ epic: 'GOLD', direction: 'BUY', size: 1 })).rejects.toBeInstanceOf(RateLimitError);
+      await expect(api.updateAccountPreferences({ hedgingMode: true })).rejects.toBeInstanceOf(AuthenticationError);
+      await expect(api.deleteWatchlist('W1')).rejects.toBeInstanceOf(AuthenticationError);
+      await expect(api.createSession({ identifier: 'user', password: 'wrong' })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should include the endpoint and method', async () => {
+      const error = await api.closePosition('DEAL1').catch(e => e);
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.endpoint).toBe('/api/v1/positions/DEAL1');
+      expect(error.method).toBe('DELETE');
+      expect(error.errorCode).toBe('error.invalid.session.token');
+    });
+
+    it('should raise NetworkError when the server is unreachable', async () => {
+      const offline = new CapitalAPI({ baseUrl: 'http://127.0.0.1:1', timeout: 2000 });
+      await expect(offline.getServerTime()).rejects.toBeInstanceOf(NetworkError);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { iterateHistoricalPrices, splitHistoricalRange, formatApiTime } from '../src/history';
+import { CapitalAPI } from '../src/CapitalAPI';
+import { NotFoundError } from '../src/errors';
+import { PriceSnapshot } from '../src/types';
+
+describe('Historical Price Downloader', () => {
+  const bar = (time: string): PriceSnapshot => ({
+    snapshotTime: time,
+    snapshotTimeUTC: time,
+    openPrice: { bid: 1, ask: 1.1 },
+    closePrice: { bid: 1, ask: 1.1 },
+    highPrice: { bid: 1, ask: 1.1 },
+    lowPrice: { bid: 1, ask: 1.1 },
+    lastTradedVolume: 1
+  });
+
+  const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  describe('splitHistoricalRange', () => {
+    it('should split a range into windows of at most max bars', () => {
+      const windows = splitHistoricalRange('HOUR', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-01T09:00:00Z'), 4);
+
+      expect(windows.map(w => [formatApiTime(w.from), formatApiTime(w.to)])).toEqual([
+        ['2024-01-01T00:00:00', '2024-01-01T03:00:00'],
+        ['2024-01-01T04:00:00', '2024-01-01T07:00:00'],
+        ['2024-01-01T08:00:00', '2024-01-01T09:00:00']
+      ]);
+    });
+
+    it('should size windows by resolution', () => {
+      // A year of MINUTE_5 bars needs 106 requests of 1000 bars
+      const windows = splitHistoricalRange('MINUTE_5', new Date('2023-01-01T00:00:00Z'), new Date('2024-01-01T00:00:00Z'));
+      expect(windows).toHaveLength(106);
+      expect(windows[0].to.getTime() - windows[0].from.getTime()).toBe(999 * 5 * 60000);
+    });
+
+    it('should reject reversed ranges', () => {
+      expect(() => splitHistoricalRange('DAY', new Date('2024-02-01'), new Date('2024-01-01'))).toThrow('Invalid range');
+    });
+  });
+
+  describe('iterateHistoricalPrices', () => {
+    it('should yield bars in order without duplicates', async () => {
+      const fetch = jest.fn(async (params: { from: string; to: string }) => ({
+        instrumentType: 'CURRENCIES' as const,
+        // Unordered, and repeating the previous window's last bar
+        prices: params.from === '2024-01-01T00:00:00'
+          ? [bar('2024-01-01T01:00:00'), bar('2024-01-01T00:00:00')]
+          : [bar('2024-01-01T01:00:00'), bar('2024-01-01T03:00:00'), bar('2024-01-01T02:00:00')]
+      }));
+
+      const bars = await collect(iterateHistoricalPrices(fetch, {
+        resolution: 'HOUR',
+        from: '2024-01-01T00:00:00',
+        to: '2024-01-01T03:00:00',
+        max: 2
+      }));
+
+      expect(bars.map(b => b.snapshotTimeUTC)).toEqual([
+        '2024-01-01T00:00:00',
+        '2024-01-01T01:00:00',
+        '2024-01-01T02:00:00',
+        '2024-01-01T03:00:00'
+      ]);
+      expect(fetch.mock.calls.map(([params]) => params)).toEqual([
+        { resolution: 'HOUR', max: 2, from: '2024-01-01T00:00:00', to: '2024-01-01T01:00:00' },
+        { resolution: 'HOUR', max: 2, from: '2024-01-01T02:00:00', to: '2024-01-01T03:00:00' }
+      ]);
+    });
+
+    it('should skip windows without prices', async () => {
+      const fetch = jest.fn(async (params: { from: string }) => {
+        if (params.from === '2024-01-06T00:00:00') {
+          throw new NotFoundError('API Error (404): error.prices.not-found', { status: 404 });
+        }
+        return { instrumentType: 'CURRENCIES' as const, prices: [bar(params.from)] };
+      });
+
+      const bars = await collect(iterateHistoricalPrices(fetch, {
+        resolution: 'DAY',
+        from: new Date('2024-01-05T00:00:00Z'),
+        to: new Date('2024-01-07T00:00:00Z'),
+        max: 1
+      }));
+
+      expect(bars.map(b => b.snapshotTimeUTC)).toEqual(['2024-01-05T00:00:00', '2024-01-07T00:00:00']);
+    });
+
+    it('should fetch windows lazily', async () => {
+      const fetch = jest.fn(async (params: { from: string }) => ({ instrumentType: 'CURRENCIES' as const, prices: [bar(params.from)] }));
+      const iterator = iterateHistoricalPrices(fetch, { resolution: 'DAY', from: '2024-01-01T00:00:00', to: '2024-01-10T00:00:00', max: 1 });
+
+      await iterator.next();
+      await iterator.return(undefined);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('CapitalAPI integration', () => {
+    it('should page through GET /api/v1/prices', async () => {
+      const api = new CapitalAPI({ rateLimit: false });
+      const urls: string[] = [];
+      (api as any).client.defaults.adapter = async (config: any) => {
+        urls.push(`${config.url}?from=${config.params.from}&max=${config.params.max}`);
+        return { data: { instrumentType: 'COMMODITIES', prices: [bar(config.params.from)] }, status: 200, statusText: 'OK', headers: {}, config };
+      };
+
+      const bars = await collect(api.iterateHistoricalPrices('GOLD', {
+        resolution: 'MINUTE',
+        from: '2024-01-01T00:00:00',
+        to: '2024-01-01T00:20:00',
+        max: 10
+      }));
+
+      expect(bars).toHaveLength(3);
+      expect(urls).toEqual([
+        '/api/v1/prices/GOLD?from=2024-01-01T00:00:00&max=10',
+        '/api/v1/prices/GOLD?from=2024-01-01T00:10:00&max=10',
+        '/api/v1/prices/GOLD?from=2024-01-01T00:20:00&max=10'
+      ]);
+    });
+  });
+});
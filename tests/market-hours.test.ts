@@ -0,0 +1,160 @@
+import { MarketHours, MarketCalendar } from '../src/MarketHours';
+import { CapitalAPI } from '../src/CapitalAPI';
+import { parseOpeningHours } from '../src/parsers';
+import { MarketDetailsResponse, OpeningHours } from '../src/types';
+
+describe('Market Hours', () => {
+  // 2024-01-01 is a Monday
+  const forex: OpeningHours = {
+    mon: ['00:00 - 00:00'],
+    tue: ['00:00 - 00:00'],
+    wed: ['00:00 - 00:00'],
+    thu: ['00:00 - 00:00'],
+    fri: ['00:00 - 21:00'],
+    sun: ['22:00 - 00:00'],
+    zone: 'UTC'
+  };
+
+  const usEquity: OpeningHours = {
+    mon: ['09:30 - 16:00'],
+    tue: ['09:30 - 16:00'],
+    wed: ['09:30 - 16:00'],
+    thu: ['09:30 - 16:00'],
+    fri: ['09:30 - 16:00'],
+    zone: 'America/New_York'
+  };
+
+  describe('MarketHours', () => {
+    it('should merge sessions that run across midnight and the week boundary', () => {
+      const schedule = new MarketHours(forex).getWeeklySchedule();
+
+      expect(schedule.zone).toBe('UTC');
+      expect(schedule.sessions).toEqual([{
+        openDay: 'sun',
+        openTime: '22:00',
+        closeDay: 'fri',
+        closeTime: '21:00',
+        durationMinutes: 4 * 1440 + 21 * 60 + 120
+      }]);
+      expect(schedule.days.sat).toEqual([]);
+    });
+
+    it('should tell whether the market is open', () => {
+      const hours = new MarketHours(forex);
+
+      expect(hours.isOpen(new Date('2024-01-03T12:00:00Z'))).toBe(true);
+      expect(hours.isOpen(new Date('2024-01-05T20:59:59Z'))).toBe(true);
+      expect(hours.isOpen(new Date('2024-01-05T21:00:00Z'))).toBe(false);
+      expect(hours.isOpen(new Date('2024-01-06T12:00:00Z'))).toBe(false);
+      expect(hours.isOpen(new Date('2024-01-07T22:00:00Z'))).toBe(true);
+    });
+
+    it('should find the next open and close', () => {
+      const hours = new MarketHours(forex);
+
+      expect(hours.nextOpen(new Date('2024-01-06T12:00:00Z'))).toEqual(new Date('2024-01-07T22:00:00Z'));
+      expect(hours.nextClose(new Date('2024-01-06T12:00:00Z'))).toEqual(new Date('2024-01-12T21:00:00Z'));
+      expect(hours.nextClose(new Date('2024-01-03T12:00:00Z'))).toEqual(new Date('2024-01-05T21:00:00Z'));
+      // Already open: the next open follows the current session
+      expect(hours.nextOpen(new Date('2024-01-03T12:00:00Z'))).toEqual(new Date('2024-01-07T22:00:00Z'));
+      // Boundaries are strictly after the given time
+      expect(hours.nextClose(new Date('2024-01-05T21:00:00Z'))).toEqual(new Date('2024-01-12T21:00:00Z'));
+    });
+
+    it('should interpret ranges in the market timezone across DST changes', () => {
+      const hours = new MarketHours(usEquity);
+
+      // EST (UTC-5) before 10 March 2024, EDT (UTC-4) after
+      expect(hours.isOpen(new Date('2024-03-08T14:30:00Z'))).toBe(true);
+      expect(hours.isOpen(new Date('2024-03-08T14:29:00Z'))).toBe(false);
+      expect(hours.nextOpen(new Date('2024-03-08T22:00:00Z'))).toEqual(new Date('2024-03-11T13:30:00Z'));
+      expect(hours.nextClose(new Date('2024-03-11T14:00:00Z'))).toEqual(new Date('2024-03-11T20:00:00Z'));
+    });
+
+    it('should fall back to the session timezone offset when no zone is given', () => {
+      const hours = new MarketHours({ mon: ['09:00 - 17:00'] } as OpeningHours, { timezoneOffset: 2 });
+
+      expect(hours.isOpen(new Date('2024-01-01T07:00:00Z'))).toBe(true);
+      expect(hours.isOpen(new Date('2024-01-01T15:00:00Z'))).toBe(false);
+      expect(hours.nextOpen(new Date('2024-01-01T15:00:00Z'))).toEqual(new Date('2024-01-08T07:00:00Z'));
+      expect(hours.getZone()).toBe('UTC+02:00');
+      expect(hours.getWeeklySchedule().zone).toBe('UTC+02:00');
+      expect(new MarketHours({ mon: ['09:00 - 17:00'] } as OpeningHours, { timezoneOffset: -3.5 }).getZone()).toBe('UTC-03:30');
+      expect(new MarketHours({ mon: ['09:00 - 17:00'] } as OpeningHours).getZone()).toBe('UTC');
+    });
+
+    it('should fall back to the session timezone offset for parsed hours without a zone', () => {
+      const parsed = parseOpeningHours({ mon: ['09:00 - 17:00'] });
+      expect(parsed.zone).toBeUndefined();
+
+      const hours = new MarketHours(parsed, { timezoneOffset: 2 });
+      expect(hours.isOpen(new Date('2024-01-01T07:00:00Z'))).toBe(true);
+      expect(hours.getZone()).toBe('UTC+02:00');
+    });
+
+    it('should support fixed offset zones', () => {
+      const hours = new MarketHours({ tue: ['10:00 - 11:00'], zone: 'UTC+03:00' });
+      expect(hours.nextOpen(new Date('2024-01-01T00:00:00Z'))).toEqual(new Date('2024-01-02T07:00:00Z'));
+    });
+
+    it('should have no boundaries for markets that never close or never open', () => {
+      const always = new MarketHours({
+        mon: ['00:00 - 00:00'], tue: ['00:00 - 00:00'], wed: ['00:00 - 00:00'], thu: ['00:00 - 00:00'],
+        fri: ['00:00 - 00:00'], sat: ['00:00 - 00:00'], sun: ['00:00 - 00:00'], zone: 'UTC'
+      });
+      expect(always.isOpen(new Date('2024-01-06T12:00:00Z'))).toBe(true);
+      expect(always.nextClose(new Date('2024-01-06T12:00:00Z'))).toBeUndefined();
+
+      const never = new MarketHours({ zone: 'UTC' });
+      expect(never.isOpen(new Date('2024-01-06T12:00:00Z'))).toBe(false);
+      expect(never.nextOpen(new Date('2024-01-06T12:00:00Z'))).toBeUndefined();
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(() => new MarketHours({ mon: ['09:00 - 17:00'], zone: 'Mars/Olympus' })).toThrow(RangeError);
+    });
+  });
+
+  describe('MarketCalendar', () => {
+    const details = (openingHours: OpeningHours | null) => ({ instrument: { epic: 'EURUSD', openingHours } }) as MarketDetailsResponse;
+
+    it('should cache opening hours per epic', async () => {
+      const fetch = jest.fn(async () => details(forex));
+      const calendar = new MarketCalendar(fetch);
+
+      expect(await calendar.isMarketOpen('EURUSD', new Date('2024-01-06T12:00:00Z'))).toBe(false);
+      expect(await calendar.nextOpen('EURUSD', new Date('2024-01-06T12:00:00Z'))).toEqual(new Date('2024-01-07T22:00:00Z'));
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      calendar.clearCache();
+      await calendar.getWeeklySchedule('EURUSD');
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat markets without opening hours as always open', async () => {
+      const calendar = new MarketCalendar(async () => details(null));
+
+      expect(await calendar.isMarketOpen('EURUSD')).toBe(true);
+      expect(await calendar.nextClose('EURUSD')).toBeUndefined();
+    });
+  });
+
+  describe('CapitalAPI integration', () => {
+    const details = (openingHours: OpeningHours) => ({ instrument: { epic: 'US500', openingHours } });
+
+    it('should answer market hours queries from market details', async () => {
+      const api = new CapitalAPI({ rateLimit: false });
+      (api as any).client.defaults.adapter = async (config: any) => ({
+        data: details(usEquity),
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config
+      });
+
+      expect(await api.isMarketOpen('US500', new Date('2024-01-02T15:00:00Z'))).toBe(true);
+      expect(await api.getNextMarketClose('US500', new Date('2024-01-02T15:00:00Z'))).toEqual(new Date('2024-01-02T21:00:00Z'));
+      expect((await api.getMarketSchedule('US500'))?.sessions).toHaveLength(5);
+    });
+  });
+});
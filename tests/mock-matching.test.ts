@@ -0,0 +1,214 @@
+import { CapitalAPI } from '../src/CapitalAPI';
+import { DealRejectedError } from '../src/errors';
+import { PriceSnapshot } from '../src/types';
+import { MockCapitalServer, MockState } from '../src/testing';
+
+// The mock server needs the real WebSocketServer
+jest.unmock('ws');
+
+describe('MockState matching engine', () => {
+  let state: MockState;
+
+  const confirmationOf = (dealReference: string) => state.getConfirmation(dealReference);
+  const openPosition = (request: Parameters<MockState['createPosition']>[0]) =>
+    state.getPosition(confirmationOf(state.createPosition(request)).dealId).position;
+
+  beforeEach(() => {
+    state = new MockState({
+      markets: [
+        { epic: 'GOLD', type: 'COMMODITIES', bid: 2000, offer: 2001 },
+        { epic: 'EURUSD', bid: 1.1, offer: 1.1002 }
+      ]
+    });
+  });
+
+  describe('positions', () => {
+    it('should close longs at the stop, book the loss and record history', () => {
+      const closed = jest.fn();
+      state.on('closed', closed);
+      const position = openPosition({ epic: 'GOLD', direction: 'BUY', size: 2, stopDistance: 10 });
+      expect(position.level).toBe(2001);
+
+      state.setPrice('GOLD', 1995, 1996);
+      expect(state.getPositions()).toHaveLength(1);
+
+      state.setPrice('GOLD', 1990, 1991);
+      expect(state.getPositions()).toEqual([]);
+      expect(closed).toHaveBeenCalledWith(expect.objectContaining({ dealId: position.dealId }), 1990, -22, 'SL');
+      expect(state.getCurrentAccount().balance).toEqual({ balance: 9978, deposit: 0, profitLoss: 0, available: 9978 });
+
+      expect(state.getActivities({ dealId: position.dealId }).map(activity => [activity.type, activity.source])).toEqual([
+        ['POSITION', 'USER'],
+        ['POSITION', 'SL']
+      ]);
+      expect(state.getTransactions()).toEqual([expect.objectContaining({
+        transactionType: 'TRADE',
+        openLevel: '2001',
+        closeLevel: '1990',
+        pnl: '-22'
+      })]);
+    });
+
+    it('should take profit on shorts at the offer', () => {
+      openPosition({ epic: 'GOLD', direction: 'SELL', size: 1, profitLevel: 1980, stopLevel: 2050 });
+
+      state.setPrice('GOLD', 1978, 1979);
+
+      expect(state.getPositions()).toEqual([]);
+      expect(state.getCurrentAccount().balance.balance).toBe(10021);
+      expect(state.getActivities().pop()).toMatchObject({ source: 'TP', description: 'Position closed by take profit' });
+    });
+
+    it('should fill guaranteed stops at their level and others at the market', () => {
+      openPosition({ epic: 'GOLD', direction: 'BUY', size: 1, stopLevel: 1990, guaranteedStop: true });
+      openPosition({ epic: 'GOLD', direction: 'BUY', size: 1, stopLevel: 1990 });
+
+      state.setPrice('GOLD', 1950, 1951);
+
+      expect(state.getTransactions().map(transaction => transaction.closeLevel)).toEqual(['1990', '1950']);
+    });
+
+    it('should trail stops behind the price', () => {
+      expect(() => state.createPosition({ epic: 'GOLD', direction: 'BUY', size: 1, trailingStop: true }))
+        .toThrow('error.invalid.trailingstop.nostopdistance');
+      const position = openPosition({ epic: 'GOLD', direction: 'BUY', size: 1, trailingStop: true, stopDistance: 5 });
+      expect(position).toMatchObject({ stopLevel: 1996 });
+
+      state.setPrice('GOLD', 2020, 2021);
+      expect(state.getPosition(position.dealId).position).toMatchObject({ stopLevel: 2015 });
+      state.setPrice('GOLD', 2017, 2018);
+      expect(state.getPosition(position.dealId).position).toMatchObject({ stopLevel: 2015 });
+
+      state.setPrice('GOLD', 2014, 2015);
+      expect(state.getPositions()).toEqual([]);
+      expect(state.getCurrentAccount().balance.balance).toBe(10013);
+    });
+
+    it('should hold margin per the leverages and reject deals beyond it', () => {
+      openPosition({ epic: 'GOLD', direction: 'BUY', size: 10 });
+
+      // 10 * 2001 at 20:1
+      expect(state.getCurrentAccount().balance).toEqual({ balance: 10000, deposit: 1000.5, profitLoss: -10, available: 8989.5 });
+
+      const rejected = confirmationOf(state.createPosition({ epic: 'GOLD', direction: 'BUY', size: 100 }));
+      expect(rejected).toMatchObject({ dealStatus: 'REJECTED', reason: 'INSUFFICIENT_FUNDS' });
+
+      state.updatePreferences({ leverages: { COMMODITIES: 100 } });
+      expect(state.getCurrentAccount().balance.deposit).toBe(200.1);
+    });
+  });
+
+  describe('working orders', () => {
+    it('should trigger LIMIT and STOP orders and open positions with their stops', () => {
+      const filled = jest.fn();
+      state.on('filled', filled);
+      const limit = confirmationOf(state.createWorkingOrder({ epic: 'GOLD', direction: 'BUY', size: 1, level: 1990, type: 'LIMIT', stopDistance: 20 }));
+      const stop = confirmationOf(state.createWorkingOrder({ epic: 'GOLD', direction: 'SELL', size: 1, level: 1980, type: 'STOP', profitDistance: 30 }));
+
+      state.setPrice('GOLD', 1995, 1996);
+      expect(state.getWorkingOrders()).toHaveLength(2);
+
+      state.setPrice('GOLD', 1988, 1989);
+      expect(filled).toHaveBeenCalledTimes(1);
+      expect(state.getPositions().map(({ position }) => position)).toEqual([expect.objectContaining({
+        workingOrderId: limit.dealId,
+        direction: 'BUY',
+        level: 1989,
+        stopLevel: 1969
+      })]);
+
+      state.setPrice('GOLD', 1979, 1980);
+      expect(state.getWorkingOrders()).toEqual([]);
+      expect(state.getPositions().map(({ position }) => position)).toContainEqual(expect.objectContaining({
+        workingOrderId: stop.dealId,
+        direction: 'SELL',
+        level: 1979,
+        profitLevel: 1949
+      }));
+      expect(state.getActivities({ dealId: stop.dealId }).map(activity => activity.status)).toEqual(['ACCEPTED', 'EXECUTED']);
+    });
+
+    it('should validate amended orders like new ones', () => {
+      const order = confirmationOf(state.createWorkingOrder({ epic: 'GOLD', direction: 'BUY', size: 1, level: 1990, type: 'LIMIT' }));
+
+      expect(() => state.updateWorkingOrder(order.dealId, { level: 0 })).toThrow('error.invalid.request');
+      expect(() => state.updateWorkingOrder(order.dealId, { trailingStop: true }))
+        .toThrow('error.invalid.trailingstop.nostopdistance');
+      expect(state.getWorkingOrders()[0].workingOrderData).toMatchObject({ orderLevel: 1990, trailingStop: false });
+
+      state.updateWorkingOrder(order.dealId, { level: 1985, trailingStop: true, stopDistance: 10 });
+      expect(state.getWorkingOrders()[0].workingOrderData).toMatchObject({ orderLevel: 1985, trailingStop: true, stopDistance: 10 });
+    });
+
+    it('should expire orders past their good-till date', () => {
+      state.setTime(Date.UTC(2024, 0, 2, 10));
+      const order = confirmationOf(state.createWorkingOrder({
+        epic: 'EURUSD',
+        direction: 'BUY',
+        size: 1000,
+        level: 1.05,
+        type: 'LIMIT',
+        goodTillDate: '2024-01-02T12:00:00'
+      }));
+
+      state.replay([{ epic: 'EURUSD', bid: 1.1001, offer: 1.1003, timestamp: Date.UTC(2024, 0, 2, 12) }]);
+
+      expect(state.getWorkingOrders()).toEqual([]);
+      expect(state.getActivities({ dealId: order.dealId }).pop()).toMatchObject({ status: 'EXPIRED', source: 'SYSTEM' });
+    });
+  });
+
+  describe('replay', () => {
+    const bar = (time: string, open: number, high: number, low: number, close: number): PriceSnapshot => ({
+      snapshotTime: time,
+      snapshotTimeUTC: time,
+      openPrice: { bid: open, ask: open + 1 },
+      highPrice: { bid: high, ask: high + 1 },
+      lowPrice: { bid: low, ask: low + 1 },
+      closePrice: { bid: close, ask: close + 1 },
+      lastTradedVolume: 100
+    });
+
+    it('should replay candles with the adverse extreme first and move the clock', () => {
+      const closed = jest.fn();
+      state.on('closed', closed);
+      openPosition({ epic: 'GOLD', direction: 'BUY', size: 1, stopLevel: 1985, profitLevel: 2020 });
+
+      state.addPriceHistory('GOLD', 'HOUR', [bar('2024-01-02T10:00:00', 2000, 2025, 1980, 2010)]);
+      state.replayCandles('GOLD', 'HOUR');
+
+      expect(closed).toHaveBeenCalledWith(expect.anything(), 1980, -21, 'SL');
+      expect(state.now()).toBe(Date.UTC(2024, 0, 2, 10, 45));
+      expect(state.getPrice('GOLD')).toEqual({ bid: 2010, offer: 2011 });
+    });
+  });
+});
+
+describe('MockCapitalServer matching', () => {
+  let server: MockCapitalServer;
+  let api: CapitalAPI;
+
+  beforeEach(async () => {
+    server = new MockCapitalServer({ markets: [{ epic: 'GOLD', type: 'COMMODITIES', bid: 2000, offer: 2001 }] });
+    await server.start();
+    api = new CapitalAPI({ baseUrl: server.url, apiKey: server.apiKey, rateLimit: false });
+    await api.createSession({ identifier: 'trader', password: 'secret' });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should report stopped-out positions through the REST API', async () => {
+    await api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 1, stopDistance: 5 });
+    expect((await api.getAllAccounts()).accounts[0].balance.deposit).toBe(100.05);
+
+    server.setPrice('GOLD', 1990, 1991);
+
+    expect((await api.getAllPositions()).positions).toEqual([]);
+    expect((await api.getAllAccounts()).accounts[0].balance).toMatchObject({ balance: 9989, deposit: 0 });
+    expect((await api.getTransactionHistory()).transactions).toEqual([expect.objectContaining({ pnl: '-11' })]);
+    await expect(api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 1000 }))
+      .rejects.toBeInstanceOf(DealRejectedError);
+  });
+});
@@ -0,0 +1,171 @@
+import { CapitalAPI } from '../src/CapitalAPI';
+import { CapitalWebSocket } from '../src/CapitalWebSocket';
+import { DealRejectedError, NotFoundError, RateLimitError, SubscriptionError } from '../src/errors';
+import { QuoteData, OHLCData } from '../src/types';
+import { MockCapitalServer } from '../src/testing';
+
+// The streaming tests need a real socket
+jest.unmock('ws');
+
+describe('MockCapitalServer', () => {
+  let server: MockCapitalServer;
+  let api: CapitalAPI;
+
+  beforeEach(async () => {
+    server = new MockCapitalServer({
+      identifier: 'trader@example.com',
+      password: 'secret',
+      markets: [
+        { epic: 'GOLD', name: 'Gold', type: 'COMMODITIES', bid: 2000, offer: 2001 },
+        { epic: 'EURUSD', name: 'EUR/USD', bid: 1.1, offer: 1.1001 }
+      ]
+    });
+    await server.start();
+    api = new CapitalAPI({ baseUrl: server.url, apiKey: server.apiKey, rateLimit: false });
+    await api.createSession({ identifier: 'trader@example.com', password: 'secret' });
+  });
+
+  afterEach(async () => {
+    api.disconnectWebSocket();
+    await server.stop();
+  });
+
+  describe('REST', () => {
+    it('should create sessions and reject bad credentials', async () => {
+      expect(api.getSessionTokens().cst).toBeDefined();
+      expect((await api.getAllAccounts()).accounts[0].balance.balance).toBe(10000);
+
+      const other = new CapitalAPI({ baseUrl: server.url, apiKey: server.apiKey, rateLimit: false });
+      await expect(other.createSession({ identifier: 'trader@example.com', password: 'wrong' }))
+        .rejects.toMatchObject({ status: 401, errorCode: 'error.invalid.details' });
+      await expect(other.getAllPositions()).rejects.toMatchObject({ status: 401, errorCode: 'error.invalid.session.token' });
+    });
+
+    it('should open, amend and close positions with confirmations', async () => {
+      const opened = await api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 2, stopDistance: 10 });
+      expect(opened).toMatchObject({ dealStatus: 'ACCEPTED', status: 'OPEN', level: 2001 });
+
+      server.setPrice('GOLD', 2011, 2012);
+      const [{ position }] = (await api.getAllPositions()).positions;
+      expect(position).toMatchObject({ dealId: opened.dealId, upl: 20, stopLevel: 1991 });
+
+      await api.updatePositionAndConfirm(position.dealId, { profitLevel: 2050 });
+      expect((await api.getPosition(position.dealId)).position).toMatchObject({ profitLevel: 2050 });
+
+      const closed = await api.closePositionAndConfirm(position.dealId);
+      expect(closed).toMatchObject({ status: 'CLOSED', level: 2011 });
+      expect((await api.getAllPositions()).positions).toEqual([]);
+    });
+
+    it('should reject deals on closed markets and report unknown epics', async () => {
+      server.state.setMarketStatus('GOLD', 'CLOSED');
+
+      await expect(api.createPositionAndConfirm({ epic: 'GOLD', direction: 'SELL', size: 1 }))
+        .rejects.toBeInstanceOf(DealRejectedError);
+      await expect(api.getMarketDetails('NOPE')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should manage working orders, markets, prices and watchlists', async () => {
+      const order = await api.createWorkingOrderAndConfirm({ epic: 'EURUSD', direction: 'BUY', size: 1000, level: 1.09, type: 'LIMIT' });
+      expect((await api.getAllWorkingOrders()).workingOrders[0].workingOrderData).toMatchObject({ dealId: order.dealId, orderLevel: 1.09 });
+      await api.deleteWorkingOrderAndConfirm(order.dealId);
+      expect((await api.getAllWorkingOrders()).workingOrders).toEqual([]);
+
+      expect((await api.getMarkets({ searchTerm: 'gold' })).markets.map(market => market.epic)).toEqual(['GOLD']);
+      expect((await api.getMarketDetails('GOLD')).instrument.marginFactor).toBe(5);
+      expect(await api.isMarketOpen('GOLD')).toBe(true);
+
+      server.state.addPriceHistory('GOLD', 'HOUR', [1, 2, 3].map(hour => ({
+        snapshotTime: `2024-01-02T0${hour}:00:00`,
+        snapshotTimeUTC: `2024-01-02T0${hour}:00:00`,
+        openPrice: { bid: hour, ask: hour + 1 },
+        closePrice: { bid: hour, ask: hour + 1 },
+        highPrice: { bid: hour, ask: hour + 1 },
+        lowPrice: { bid: hour, ask: hour + 1 },
+        lastTradedVolume: 10
+      })));
+      const candles = await api.getCandles('GOLD', { resolution: 'HOUR', max: 2 });
+      expect(candles.map(candle => candle.close)).toEqual([2, 3]);
+
+      const { watchlistId } = await api.createWatchlist({ name: 'Metals', epics: ['GOLD'] });
+      await api.addMarketToWatchlist(watchlistId, { epic: 'EURUSD' });
+      await api.removeMarketFromWatchlist(watchlistId, 'GOLD');
+      expect((await api.getWatchlist(watchlistId)).markets.map(market => market.epic)).toEqual(['EURUSD']);
+    });
+
+    it('should inject faults', async () => {
+      server.injectFault({ method: 'GET', path: '/api/v1/accounts', status: 429, errorCode: 'error.too-many.requests', headers: { 'Retry-After': '1' } });
+
+      await expect(api.getAllAccounts()).rejects.toBeInstanceOf(RateLimitError);
+      await expect(api.getAllAccounts()).resolves.toBeDefined();
+      expect(server.requests.filter(request => request.path === '/api/v1/accounts').map(request => request.status)).toEqual([429, 200]);
+    });
+
+    it('should expire sessions', async () => {
+      const renewing = new CapitalAPI({
+        baseUrl: server.url,
+        apiKey: server.apiKey,
+        rateLimit: false,
+        autoRenewSession: true
+      });
+      await renewing.createSession({ identifier: 'trader@example.com', password: 'secret' });
+
+      server.state.expireSessions();
+
+      await expect(renewing.getAllAccounts()).resolves.toBeDefined();
+      expect(server.requests.filter(request => request.path === '/api/v1/session')).toHaveLength(3);
+    });
+  });
+
+  describe('Streaming', () => {
+    const connect = async (config: Partial<ConstructorParameters<typeof CapitalWebSocket>[0]> = {}) => {
+      const ws = api.createWebSocketConnection({ streamingUrl: server.streamingUrl, ...config });
+      await ws.connect();
+      return ws;
+    };
+
+    const next = <T>(ws: CapitalWebSocket, event: 'quote' | 'ohlc' | 'reconnected'): Promise<T> =>
+      new Promise(resolve => ws.once(event, ((value: T) => resolve(value)) as any));
+
+    it('should acknowledge subscriptions and stream quotes and bars', async () => {
+      const ws = await connect();
+
+      const handle = await ws.subscribeToMarketData(['GOLD', 'NOPE']);
+      expect(handle.succeeded).toEqual(['GOLD']);
+      expect(handle.failed).toEqual([{ epic: 'NOPE', status: 'ERROR: invalid.epic' }]);
+      await ws.subscribeToOHLCData(['GOLD'], ['MINUTE']);
+
+      const quote = next<QuoteData>(ws, 'quote');
+      const bar = next<OHLCData>(ws, 'ohlc');
+      server.setPrice('GOLD', 2002, 2003);
+
+      expect(await quote).toMatchObject({ epic: 'GOLD', bid: 2002, ofr: 2003 });
+      expect(await bar).toMatchObject({ epic: 'GOLD', resolution: 'MINUTE', priceType: 'bid', c: 2002 });
+    });
+
+    it('should answer pings and inject stream faults', async () => {
+      const ws = await connect();
+      const pong = new Promise(resolve => ws.once('pong', resolve));
+      ws.ping();
+      await pong;
+      expect(ws.getLatencyStats()?.samples).toBe(1);
+
+      server.injectStreamFault({ destination: 'marketData.subscribe', errorCode: 'error.service.unavailable' });
+      await expect(ws.subscribeToMarketData(['GOLD'])).rejects.toBeInstanceOf(SubscriptionError);
+    });
+
+    it('should let clients reconnect and resubscribe after connections drop', async () => {
+      const ws = await connect({ reconnect: { baseDelay: 10, jitter: false } });
+      await ws.subscribeToMarketData(['GOLD']);
+
+      const reconnected = next<any[]>(ws, 'reconnected');
+      server.dropConnections();
+      const [resubscription] = await reconnected;
+      expect(resubscription.succeeded).toEqual(['GOLD']);
+
+      const quote = next<QuoteData>(ws, 'quote');
+      server.setPrice('GOLD', 2005, 2006);
+      expect((await quote).bid).toBe(2005);
+    });
+  });
+});
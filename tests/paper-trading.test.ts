@@ -0,0 +1,115 @@
+import { CapitalAPI } from '../src/CapitalAPI';
+import { DealRejectedError, NotFoundError } from '../src/errors';
+import { QuoteData } from '../src/types';
+import { MockCapitalServer } from '../src/testing';
+
+// The mock server stands in for the live API and needs the real WebSocketServer
+jest.unmock('ws');
+
+describe('Paper trading', () => {
+  let server: MockCapitalServer;
+  let api: CapitalAPI;
+
+  const dealRequests = () => server.requests.filter(request =>
+    request.method !== 'GET' && /^\/api\/v1\/(positions|workingorders)/.test(request.path));
+
+  beforeEach(async () => {
+    server = new MockCapitalServer({
+      markets: [
+        { epic: 'GOLD', type: 'COMMODITIES', bid: 2000, offer: 2001 },
+        { epic: 'EURUSD', bid: 1.1, offer: 1.1002 }
+      ]
+    });
+    await server.start();
+    api = new CapitalAPI({ baseUrl: server.url, apiKey: server.apiKey, rateLimit: false, paperTrading: { balance: 5000 } });
+    await api.createSession({ identifier: 'trader', password: 'secret' });
+  });
+
+  afterEach(async () => {
+    api.disconnectWebSocket();
+    await server.stop();
+  });
+
+  it('should keep deals in the simulated book in the API response shapes', async () => {
+    const opened = await api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 2, stopDistance: 10 });
+    expect(opened).toMatchObject({ dealStatus: 'ACCEPTED', status: 'OPEN', level: 2001 });
+
+    const { positions } = await api.getAllPositions();
+    expect(positions).toEqual([{
+      position: expect.objectContaining({ dealId: opened.dealId, level: 2001, stopLevel: 1991, leverage: 20, upl: -2 }),
+      market: expect.objectContaining({ epic: 'GOLD', bid: 2000, offer: 2001 })
+    }]);
+    expect(api.getPaperTrader()!.getBalance()).toEqual({ balance: 5000, deposit: 200.1, profitLoss: -2, available: 4797.9 });
+
+    expect(dealRequests()).toEqual([]);
+    expect(server.state.getPositions()).toEqual([]);
+    await expect(api.getDealConfirmation('o_unknown')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should re-price from market details before deals while no quotes arrive', async () => {
+    const opened = await api.createPositionAndConfirm({ epic: 'GOLD', direction: 'SELL', size: 1 });
+
+    server.setPrice('GOLD', 1990, 1991);
+    const closed = await api.closePositionAndConfirm(opened.dealId);
+
+    expect(closed).toMatchObject({ status: 'CLOSED', level: 1991 });
+    expect((await api.getTransactionHistory()).transactions).toEqual([expect.objectContaining({ pnl: '9' })]);
+    expect(api.getPaperTrader()!.getBalance().balance).toBe(5009);
+    expect(dealRequests()).toEqual([]);
+  });
+
+  it('should follow quotes to trigger stops once a stream is attached', async () => {
+    const ws = api.createWebSocketConnection({ streamingUrl: server.streamingUrl });
+    await ws.connect();
+
+    const subscribed = new Promise(resolve => ws.once('subscription', resolve));
+    const opened = await api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 1, stopDistance: 5 });
+    expect(ws.getSubscribedInstruments()).toEqual(['GOLD']);
+    await subscribed;
+
+    const quote = new Promise<QuoteData>(resolve => ws.once('quote', resolve));
+    server.setPrice('GOLD', 1995, 1996);
+    await quote;
+
+    expect((await api.getAllPositions()).positions).toEqual([]);
+    expect((await api.getActivityHistory({ dealId: opened.dealId })).activities.map(activity => activity.source))
+      .toEqual(['USER', 'SL']);
+    expect(api.getPaperTrader()!.getBalance().balance).toBe(4994);
+  });
+
+  it('should subscribe to quotes of epics that only stream OHLC bars', async () => {
+    const ws = api.createWebSocketConnection({ streamingUrl: server.streamingUrl });
+    await ws.connect();
+    await ws.subscribeToOHLCData(['GOLD'], ['MINUTE']);
+
+    const subscribed = new Promise(resolve => ws.once('subscription', resolve));
+    await api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 1, stopDistance: 5 });
+    expect(await subscribed).toMatchObject({ destination: 'marketData.subscribe' });
+    expect(ws.hasMarketDataSubscription('GOLD')).toBe(true);
+
+    const quote = new Promise<QuoteData>(resolve => ws.once('quote', resolve));
+    server.setPrice('GOLD', 1995, 1996);
+    await quote;
+
+    expect((await api.getAllPositions()).positions).toEqual([]);
+    expect(api.getPaperTrader()!.getBalance().balance).toBe(4994);
+  });
+
+  it('should simulate working orders and reject deals beyond the paper balance', async () => {
+    const order = await api.createWorkingOrderAndConfirm({ epic: 'EURUSD', direction: 'BUY', size: 1000, level: 1.09, type: 'LIMIT' });
+    await api.updateWorkingOrderAndConfirm(order.dealId, { level: 1.095 });
+    expect((await api.getAllWorkingOrders()).workingOrders[0].workingOrderData).toMatchObject({ orderLevel: 1.095 });
+
+    server.setPrice('EURUSD', 1.094, 1.0942);
+    await api.createPositionAndConfirm({ epic: 'EURUSD', direction: 'SELL', size: 1000 });
+    const { positions } = await api.getAllPositions();
+    expect(positions.map(({ position }) => [position.direction, position.level, position.workingOrderId])).toEqual([
+      ['BUY', 1.0942, order.dealId],
+      ['SELL', 1.094, undefined]
+    ]);
+
+    await expect(api.createPositionAndConfirm({ epic: 'GOLD', direction: 'BUY', size: 100 }))
+      .rejects.toBeInstanceOf(DealRejectedError);
+    expect(dealRequests()).toEqual([]);
+  });
+});
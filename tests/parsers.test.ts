@@ -0,0 +1,151 @@
+import {
+  parseDealingRuleValue,
+  parseDealingRules,
+  parseOpeningHours,
+  parseOpeningHoursRange,
+  parseOvernightFee,
+  parseBidAskPrice,
+  parseHistoricalPrices,
+  parseMarketDetails
+} from '../src/parsers';
+
+describe('Response Parsers', () => {
+  const rawDealingRules = {
+    minStepDistance: { unit: 'POINTS', value: 0.01 },
+    minDealSize: { unit: 'AMOUNT', value: '0.01' },
+    maxDealSize: { unit: 'AMOUNT', value: 50 },
+    minSizeIncrement: { unit: 'AMOUNT', value: 0.01 },
+    minGuaranteedStopDistance: { unit: 'PERCENTAGE', value: 0.5 },
+    minStopOrProfitDistance: { unit: 'PERCENTAGE', value: 0.1 },
+    maxStopOrProfitDistance: { unit: 'PERCENTAGE', value: 70 },
+    marketOrderPreference: 'AVAILABLE_DEFAULT_OFF',
+    trailingStopsPreference: 'AVAILABLE'
+  };
+
+  const rawOpeningHours = {
+    mon: ['23:05 - 00:00', '00:00 - 21:59'],
+    tue: ['00:00 - 21:59', '23:05 - 00:00'],
+    wed: [],
+    sun: ['22:00 - 00:00'],
+    zone: 'UTC'
+  };
+
+  describe('parseDealingRules', () => {
+    it('should parse { unit, value } rules and coerce numeric strings', () => {
+      const rules = parseDealingRules(rawDealingRules);
+      expect(rules.minDealSize).toEqual({ unit: 'AMOUNT', value: 0.01 });
+      expect(rules.minStopOrProfitDistance).toEqual({ unit: 'PERCENTAGE', value: 0.1 });
+      expect(rules.trailingStopsPreference).toBe('AVAILABLE');
+    });
+
+    it('should reject malformed rule values', () => {
+      expect(() => parseDealingRuleValue({ unit: 'LOTS', value: 1 })).toThrow('unknown unit');
+      expect(() => parseDealingRuleValue({ unit: 'POINTS', value: 'abc' })).toThrow('expected a number');
+      expect(() => parseDealingRules({ ...rawDealingRules, maxDealSize: { unit: 'AMOUNT' } })).toThrow('dealingRules.maxDealSize.value');
+    });
+
+    it('should leave out rules the market does not define', () => {
+      const { maxDealSize, ...rest } = rawDealingRules;
+      const rules = parseDealingRules({ ...rest, minGuaranteedStopDistance: null });
+      expect(rules.maxDealSize).toBeUndefined();
+      expect(rules.minGuaranteedStopDistance).toBeUndefined();
+      expect(rules.minDealSize).toEqual({ unit: 'AMOUNT', value: 0.01 });
+    });
+  });
+
+  describe('parseOpeningHours', () => {
+    it('should parse sorted per-day ranges with the timezone', () => {
+      const hours = parseOpeningHours(rawOpeningHours);
+
+      expect(hours.zone).toBe('UTC');
+      expect(hours.days.mon).toEqual([
+        { start: '00:00', end: '21:59', startMinutes: 0, endMinutes: 1319 },
+        { start: '23:05', end: '00:00', startMinutes: 1385, endMinutes: 1440 }
+      ]);
+      expect(hours.days.wed).toEqual([]);
+      expect(hours.days.sat).toEqual([]);
+      expect(hours.days.sun).toHaveLength(1);
+    });
+
+    it('should treat a midnight close as the end of the day', () => {
+      expect(parseOpeningHoursRange('00:00 - 00:00')).toEqual({ start: '00:00', end: '00:00', startMinutes: 0, endMinutes: 1440 });
+    });
+
+    it('should reject malformed ranges', () => {
+      expect(() => parseOpeningHoursRange('9am - 5pm')).toThrow('expected HH:mm');
+      expect(() => parseOpeningHoursRange('10:00 - 09:00')).toThrow('closes before it opens');
+      expect(() => parseOpeningHoursRange('22:00 - 24:30')).toThrow('expected HH:mm');
+      expect(parseOpeningHoursRange('22:00 - 24:00').endMinutes).toBe(1440);
+      expect(() => parseOpeningHours({ mon: '00:00 - 21:59', zone: 'UTC' })).toThrow('openingHours.mon');
+    });
+  });
+
+  describe('parseOvernightFee', () => {
+    it('should parse long/short rates and swap charge times', () => {
+      expect(parseOvernightFee({
+        longRate: -0.0217,
+        shortRate: '-0.0065',
+        swapChargeTimestamp: 1682294400000,
+        swapChargeInterval: 1440
+      })).toEqual({
+        longRate: -0.0217,
+        shortRate: -0.0065,
+        swapChargeTimestamp: 1682294400000,
+        swapChargeInterval: 1440
+      });
+    });
+  });
+
+  describe('price parsers', () => {
+    it('should parse bid/ask pairs', () => {
+      expect(parseBidAskPrice({ bid: 1.0712, ask: '1.0713' })).toEqual({ bid: 1.0712, ask: 1.0713 });
+      expect(() => parseBidAskPrice({ bid: 1.07 }, 'openPrice')).toThrow('openPrice.ask');
+    });
+
+    it('should parse historical price responses', () => {
+      const response = parseHistoricalPrices({
+        prices: [{
+          snapshotTime: '2024-01-02T10:00:00',
+          snapshotTimeUTC: '2024-01-02T10:00:00',
+          openPrice: { bid: 2060.1, ask: 2060.4 },
+          closePrice: { bid: 2061.0, ask: 2061.3 },
+          highPrice: { bid: 2062.5, ask: 2062.8 },
+          lowPrice: { bid: 2059.7, ask: 2060.0 },
+          lastTradedVolume: 1234
+        }],
+        instrumentType: 'COMMODITIES'
+      });
+
+      expect(response.prices[0].highPrice).toEqual({ bid: 2062.5, ask: 2062.8 });
+      expect(response.prices[0].lastTradedVolume).toBe(1234);
+      expect(response.instrumentType).toBe('COMMODITIES');
+    });
+  });
+
+  describe('parseMarketDetails', () => {
+    it('should type the instrument and dealing rules', () => {
+      const details = parseMarketDetails({
+        instrument: {
+          epic: 'GOLD',
+          name: 'Gold',
+          type: 'COMMODITIES',
+          openingHours: rawOpeningHours,
+          overnightFee: { longRate: -0.02, shortRate: -0.01, swapChargeTimestamp: 1, swapChargeInterval: 1440 }
+        },
+        dealingRules: rawDealingRules,
+        snapshot: { bid: 2000, offer: 2001 }
+      });
+
+      expect(details.instrument.openingHours?.zone).toBe('UTC');
+      expect(details.instrument.overnightFee?.longRate).toBe(-0.02);
+      expect(details.dealingRules.minDealSize?.value).toBe(0.01);
+      expect(details.snapshot.offer).toBe(2001);
+    });
+
+    it('should allow instruments without opening hours or fees', () => {
+      const details = parseMarketDetails({ instrument: { epic: 'X' }, dealingRules: rawDealingRules, snapshot: {} });
+      expect(details.instrument.openingHours).toBeNull();
+      expect(details.instrument.overnightFee).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { RateLimiter, TokenBucket } from '../src/RateLimiter';
+import { CapitalAPI } from '../src/CapitalAPI';
+
+describe('Rate Limiting', () => {
+  describe('TokenBucket', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should allow a burst up to capacity and queue the rest', async () => {
+      const bucket = new TokenBucket({ requests: 3, interval: 1000 });
+      const granted: number[] = [];
+
+      for (let i = 0; i < 5; i++) {
+        bucket.acquire().then(() => granted.push(i));
+      }
+      await Promise.resolve();
+      expect(granted).toEqual([0, 1, 2]);
+      expect(bucket.getQueueLength()).toBe(2);
+
+      await jest.advanceTimersByTimeAsync(334);
+      expect(granted).toEqual([0, 1, 2, 3]);
+
+      await jest.advanceTimersByTimeAsync(333);
+      expect(granted).toEqual([0, 1, 2, 3, 4]);
+      expect(bucket.getQueueLength()).toBe(0);
+    });
+
+    it('should refill over time without exceeding capacity', async () => {
+      const bucket = new TokenBucket({ requests: 2, interval: 100 });
+      await bucket.acquire();
+      await bucket.acquire();
+
+      jest.advanceTimersByTime(10000);
+      const granted: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        bucket.acquire().then(() => granted.push(i));
+      }
+      await Promise.resolve();
+      expect(granted).toEqual([0, 1]);
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() => new TokenBucket({ requests: 0, interval: 1000 })).toThrow();
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should classify endpoints', () => {
+      expect(RateLimiter.classify('post', '/api/v1/session')).toBe('session');
+      expect(RateLimiter.classify('post', '/api/v1/positions')).toBe('trading');
+      expect(RateLimiter.classify('POST', '/api/v1/workingorders')).toBe('trading');
+      expect(RateLimiter.classify('get', '/api/v1/positions')).toBe('general');
+      expect(RateLimiter.classify('delete', '/api/v1/positions/DEAL1')).toBe('general');
+      expect(RateLimiter.classify('get', '/api/v1/session')).toBe('general');
+      expect(RateLimiter.classify(undefined, '/api/v1/markets')).toBe('general');
+    });
+
+    it('should space trading requests and count them against the general limit', async () => {
+      jest.useFakeTimers();
+      try {
+        const limiter = new RateLimiter({ general: { requests: 2, interval: 1000 } });
+        const granted: string[] = [];
+
+        limiter.acquire('trading').then(() => granted.push('trade-1'));
+        limiter.acquire('trading').then(() => granted.push('trade-2'));
+        limiter.acquire('general').then(() => granted.push('general'));
+        await jest.advanceTimersByTimeAsync(0);
+        expect([...granted].sort()).toEqual(['general', 'trade-1']);
+
+        // trade-2 passes the trading bucket after 100ms but the general bucket is exhausted
+        await jest.advanceTimersByTimeAsync(100);
+        expect(granted).toHaveLength(2);
+        expect(limiter.getQueueLength('general')).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(400);
+        expect(granted[2]).toBe('trade-2');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('CapitalAPI integration', () => {
+    it('should queue requests through the rate limiter', async () => {
+      const api = new CapitalAPI({ rateLimit: { general: { requests: 1, interval: 200 } } });
+      const limiter = (api as any).rateLimiter as RateLimiter;
+      const acquire = jest.spyOn(limiter, 'acquire');
+      (api as any).client.defaults.adapter = async (config: any) => ({
+        data: { serverTime: Date.now() },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config
+      });
+
+      const first = await api.getServerTime();
+      const second = await api.getServerTime();
+
+      expect(acquire).toHaveBeenCalledWith('general');
+      expect(second.serverTime - first.serverTime).toBeGreaterThanOrEqual(150);
+    });
+
+    it('should be possible to disable rate limiting', () => {
+      const api = new CapitalAPI({ rateLimit: false });
+      expect((api as any).rateLimiter).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { CapitalAPI } from '../src/CapitalAPI';
+import { RetryPolicy } from '../src/retry';
+import {
+  CapitalApiError,
+  NetworkError,
+  RateLimitError,
+  ValidationError
+} from '../src/errors';
+
+describe('Retry Policy', () => {
+  describe('RetryPolicy', () => {
+    const serverError = new CapitalApiError('API Error (503): unavailable', { status: 503 });
+
+    it('should only retry configured methods', () => {
+      const policy = new RetryPolicy();
+      expect(policy.isRetryable(serverError, 'get')).toBe(true);
+      expect(policy.isRetryable(serverError, 'POST')).toBe(false);
+
+      const tradingPolicy = new RetryPolicy({ methods: ['get', 'post'] });
+      expect(tradingPolicy.isRetryable(serverError, 'POST')).toBe(true);
+    });
+
+    it('should only retry transient failures', () => {
+      const policy = new RetryPolicy();
+      expect(policy.isRetryable(new NetworkError('reset', { cause: { code: 'ECONNRESET' } }), 'GET')).toBe(true);
+      expect(policy.isRetryable(new NetworkError('canceled', { cause: { code: 'ERR_CANCELED' } }), 'GET')).toBe(false);
+      expect(policy.isRetryable(new RateLimitError('slow down', { status: 429 }), 'GET')).toBe(true);
+      expect(policy.isRetryable(new ValidationError('bad', { status: 400 }), 'GET')).toBe(false);
+    });
+
+    it('should back off exponentially up to maxDelay', () => {
+      const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 500, jitter: false });
+      expect(policy.getDelay(1)).toBe(100);
+      expect(policy.getDelay(2)).toBe(200);
+      expect(policy.getDelay(3)).toBe(400);
+      expect(policy.getDelay(4)).toBe(500);
+    });
+
+    it('should keep jittered delays within the backoff window', () => {
+      const policy = new RetryPolicy({ baseDelay: 100 });
+      for (let i = 0; i < 20; i++) {
+        const delay = policy.getDelay(3);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(400);
+      }
+    });
+
+    it('should honor Retry-After on rate limit errors', () => {
+      const policy = new RetryPolicy({ baseDelay: 100, jitter: false });
+      expect(policy.getDelay(1, new RateLimitError('slow down', { status: 429 }, 3000))).toBe(3000);
+    });
+
+    it('should cap Retry-After at maxDelay', () => {
+      const policy = new RetryPolicy({ maxDelay: 5000 });
+      expect(policy.getDelay(1, new RateLimitError('slow down', { status: 429 }, 3600000))).toBe(5000);
+    });
+  });
+
+  describe('CapitalAPI integration', () => {
+    const createApi = (failures: Array<number | string>, retry: any) => {
+      const api = new CapitalAPI({ retry, rateLimit: false });
+      const calls: string[] = [];
+      (api as any).client.defaults.adapter = async (config: any) => {
+        calls.push(`${config.method.toUpperCase()} ${config.url}`);
+        const failure = failures.shift();
+        if (typeof failure === 'string') {
+          throw Object.assign(new Error('socket hang up'), { code: failure, isAxiosError: true, config });
+        }
+        if (failure !== undefined) {
+          throw Object.assign(new Error(`Request failed with status code ${failure}`), {
+            isAxiosError: true,
+            config,
+            response: { status: failure, data: {}, headers: { 'retry-after': '0' }, config }
+          });
+        }
+        return { data: { ok: true }, status: 200, statusText: 'OK', headers: {}, config };
+      };
+      return { api, calls };
+    };
+
+    it('should retry idempotent requests and report each retry', async () => {
+      const onRetry = jest.fn();
+      const { api, calls } = createApi([503, 'ECONNRESET'], { baseDelay: 1, onRetry });
+
+      await expect(api.getMarkets()).resolves.toEqual({ ok: true });
+      expect(calls).toHaveLength(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0][0]).toEqual(expect.objectContaining({
+        attempt: 1,
+        maxAttempts: 3,
+        method: 'GET',
+        endpoint: '/api/v1/markets'
+      }));
+      expect(onRetry.mock.calls[1][0].error).toBeInstanceOf(NetworkError);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const { api, calls } = createApi([500, 500, 500, 500], { baseDelay: 1, maxAttempts: 2 });
+
+      await expect(api.getAllPositions()).rejects.toMatchObject({ status: 500 });
+      expect(calls).toHaveLength(2);
+    });
+
+    it('should not retry trading calls unless opted in', async () => {
+      const { api, calls } = createApi([503], { baseDelay: 1 });
+      await expect(api.createPosition({ epic: 'GOLD', direction: 'BUY', size: 1 })).rejects.toBeInstanceOf(CapitalApiError);
+      expect(calls).toHaveLength(1);
+
+      const optedIn = createApi([503], { baseDelay: 1, methods: ['GET', 'POST'] });
+      await expect(optedIn.api.createPosition({ epic: 'GOLD', direction: 'BUY', size: 1 })).resolves.toEqual({ ok: true });
+      expect(optedIn.calls).toHaveLength(2);
+    });
+
+    it('should not retry when retries are disabled', async () => {
+      const { api, calls } = createApi([503], undefined);
+      await expect(api.getMarkets()).rejects.toBeInstanceOf(CapitalApiError);
+      expect(calls).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { SessionManager } from '../src/SessionManager';
+
+describe('SessionManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createManager = (config: ConstructorParameters<typeof SessionManager>[1], ping?: jest.Mock) => {
+    const pingFn = ping || jest.fn(async () => ({ status: 'OK' }));
+    const manager = new SessionManager(pingFn, config);
+    const events: string[] = [];
+    ['sessionCreated', 'sessionRenewed', 'sessionExpiring', 'sessionLost'].forEach(event => {
+      manager.on(event, () => events.push(event));
+    });
+    return { manager, ping: pingFn, events };
+  };
+
+  it('should only emit lifecycle events when keep-alive is not configured', () => {
+    const { manager, ping, events } = createManager(undefined);
+
+    manager.start();
+    jest.advanceTimersByTime(60 * 60 * 1000);
+
+    expect(events).toEqual(['sessionCreated']);
+    expect(ping).not.toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should ping after the configured idle time', async () => {
+    const { manager, ping } = createManager({ pingInterval: 240000 });
+
+    manager.start();
+    jest.advanceTimersByTime(239999);
+    expect(ping).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(ping).toHaveBeenCalledTimes(1);
+  });
+
+  it('should postpone the ping while requests keep the session busy', () => {
+    const { manager, ping } = createManager(true);
+
+    manager.start();
+    jest.advanceTimersByTime(200000);
+    manager.recordActivity();
+    jest.advanceTimersByTime(200000);
+
+    expect(ping).not.toHaveBeenCalled();
+    expect(manager.getIdleTime()).toBe(200000);
+    expect(manager.getSessionAge()).toBe(400000);
+  });
+
+  it('should warn before expiry and report the session lost on timeout', () => {
+    const { manager, events } = createManager({ enabled: false, expiryWarning: 30000 });
+    const lost = jest.fn();
+    manager.on('sessionLost', lost);
+
+    manager.start();
+    jest.advanceTimersByTime(570000);
+    expect(events).toEqual(['sessionCreated', 'sessionExpiring']);
+
+    jest.advanceTimersByTime(30000);
+    expect(events).toEqual(['sessionCreated', 'sessionExpiring', 'sessionLost']);
+    expect(lost).toHaveBeenCalledWith(expect.objectContaining({ reason: 'timeout' }));
+    expect(manager.isActive()).toBe(false);
+  });
+
+  it('should retry failed pings until the session is lost', async () => {
+    const ping = jest.fn(async () => {
+      throw new Error('network down');
+    });
+    const { manager, events } = createManager({ pingInterval: 100000 }, ping);
+
+    manager.start();
+    await jest.advanceTimersByTimeAsync(300000);
+    expect(ping).toHaveBeenCalledTimes(3);
+
+    await jest.advanceTimersByTimeAsync(300000);
+    expect(events).toContain('sessionLost');
+    expect(ping).toHaveBeenCalledTimes(5);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should emit sessionRenewed for renewed sessions', () => {
+    const { manager, events } = createManager(true);
+
+    manager.start();
+    manager.start(true);
+
+    expect(events).toEqual(['sessionCreated', 'sessionRenewed']);
+    manager.stop();
+  });
+
+  it('should stop all timers cleanly', () => {
+    const { manager, ping, events } = createManager(true);
+
+    manager.start();
+    expect(jest.getTimerCount()).toBeGreaterThan(0);
+
+    manager.stop();
+    expect(jest.getTimerCount()).toBe(0);
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(ping).not.toHaveBeenCalled();
+    expect(events).toEqual(['sessionCreated']);
+    expect(manager.isActive()).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { generateKeyPairSync } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CapitalAPI } from '../src/CapitalAPI';
+
+describe('Automatic Session Renewal', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let sessionCount: number;
+  let validCst: string | undefined;
+  let logins: any[];
+  let accountRequests: number;
+  let encryptionKeyAvailable: boolean;
+  const encryptionKey = generateKeyPairSync('rsa', {
+    modulusLength: 1024,
+    publicKeyEncoding: { type: 'spki', format: 'der' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'der' }
+  }).publicKey.toString('base64');
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+
+        if (req.url === '/api/v1/session' && req.method === 'POST') {
+          const credentials = JSON.parse(body);
+          logins.push(credentials);
+          if (!credentials.encryptedPassword && credentials.password !== 'secret') {
+            res.statusCode = 401;
+            res.end(JSON.stringify({ errorCode: 'error.invalid.details' }));
+            return;
+          }
+          sessionCount++;
+          validCst = `cst-${sessionCount}`;
+          res.setHeader('CST', validCst);
+          res.setHeader('X-SECURITY-TOKEN', `token-${sessionCount}`);
+          res.end(JSON.stringify({ currentAccountId: 'ACC' }));
+          return;
+        }
+
+        if (req.url === '/api/v1/session/encryptionKey' && encryptionKeyAvailable) {
+          res.end(JSON.stringify({ encryptionKey, timeStamp: Date.now() }));
+          return;
+        }
+
+        if (!validCst || req.headers['cst'] !== validCst) {
+          res.statusCode = 401;
+          res.end(JSON.stringify({ errorCode: 'error.invalid.session.token' }));
+          return;
+        }
+
+        if (req.url === '/api/v1/accounts') {
+          accountRequests++;
+          res.end(JSON.stringify({ accounts: [] }));
+        } else if (req.url === '/api/v1/session' && req.method === 'DELETE') {
+          validCst = undefined;
+          res.end(JSON.stringify({ status: 'SUCCESS' }));
+        } else {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ errorCode: 'error.not-found' }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    sessionCount = 0;
+    validCst = undefined;
+    logins = [];
+    accountRequests = 0;
+    encryptionKeyAvailable = true;
+  });
+
+  const expireSession = () => {
+    validCst = 'expired-elsewhere';
+  };
+
+  it('should clear the session on 401 when renewal is disabled', async () => {
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key' });
+    const lost = jest.fn();
+    api.getSessionManager().on('sessionLost', lost);
+    await api.createSession({ identifier: 'user', password: 'secret' });
+    expireSession();
+
+    await expect(api.getAllAccounts()).rejects.toThrow();
+    expect(api.isAuthenticated()).toBe(false);
+    expect(lost).toHaveBeenCalledWith(expect.objectContaining({ reason: 'unauthorized' }));
+    expect(sessionCount).toBe(1);
+  });
+
+  it('should renew the session and replay the request', async () => {
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key', autoRenewSession: true });
+    await api.createSession({ identifier: 'user', password: 'secret' });
+    expireSession();
+
+    await expect(api.getAllAccounts()).resolves.toEqual({ accounts: [] });
+    expect(sessionCount).toBe(2);
+    expect(api.getSessionTokens()).toEqual({ cst: 'cst-2', securityToken: 'token-2' });
+    expect(accountRequests).toBe(1);
+  });
+
+  it('should share one renewal between concurrent failures', async () => {
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key', autoRenewSession: true });
+    await api.createSession({ identifier: 'user', password: 'secret' });
+    expireSession();
+
+    await Promise.all([api.getAllAccounts(), api.getAllAccounts(), api.getAllAccounts()]);
+    expect(sessionCount).toBe(2);
+    expect(accountRequests).toBe(3);
+  });
+
+  it('should use a credential provider when configured', async () => {
+    const provider = jest.fn(async () => ({ identifier: 'provided', password: 'secret' }));
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key', autoRenewSession: true, credentials: provider });
+    await api.createSession({ identifier: 'user', password: 'secret' });
+    expireSession();
+
+    await api.getAllAccounts();
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(logins[1].identifier).toBe('provided');
+  });
+
+  it('should give up and clear the session when renewal fails', async () => {
+    let password = 'secret';
+    const api = new CapitalAPI({
+      baseUrl,
+      apiKey: 'key',
+      autoRenewSession: true,
+      credentials: () => ({ identifier: 'user', password })
+    });
+    await api.createSession({ identifier: 'user', password });
+    expireSession();
+    password = 'changed';
+
+    await expect(api.getAllAccounts()).rejects.toThrow();
+    expect(api.isAuthenticated()).toBe(false);
+    expect(accountRequests).toBe(0);
+  });
+
+  it('should reject instead of waiting on itself when the renewal gets a 401', async () => {
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key', autoRenewSession: true });
+    await api.createSessionWithEncryption('user', 'secret');
+    expireSession();
+    encryptionKeyAvailable = false;
+
+    await expect(api.getAllAccounts()).rejects.toMatchObject({ status: 401 });
+    expect(api.isAuthenticated()).toBe(false);
+    expect(sessionCount).toBe(1);
+  });
+
+  it('should push renewed tokens into the live WebSocket', async () => {
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key', autoRenewSession: true });
+    await api.createSession({ identifier: 'user', password: 'secret' });
+    const ws = api.createWebSocketConnection();
+    const updateTokens = jest.spyOn(ws, 'updateTokens');
+    expireSession();
+
+    await api.getAllAccounts();
+    expect(updateTokens).toHaveBeenCalledWith('cst-2', 'token-2');
+  });
+
+  it('should report the session lifecycle through the session manager', async () => {
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key', autoRenewSession: true });
+    const events: string[] = [];
+    ['sessionCreated', 'sessionRenewed', 'sessionLost'].forEach(event => {
+      api.getSessionManager().on(event, () => events.push(event));
+    });
+
+    await api.createSession({ identifier: 'user', password: 'secret' });
+    expireSession();
+    await api.getAllAccounts();
+    expect(events).toEqual(['sessionCreated', 'sessionRenewed']);
+
+    await api.logout();
+    expect(events).toEqual(['sessionCreated', 'sessionRenewed']);
+    expect(api.getSessionManager().isActive()).toBe(false);
+  });
+
+  it('should not renew after logout', async () => {
+    const api = new CapitalAPI({ baseUrl, apiKey: 'key', autoRenewSession: true });
+    await api.createSession({ identifier: 'user', password: 'secret' });
+    await api.logout();
+
+    await expect(api.getAllAccounts()).rejects.toThrow();
+    expect(sessionCount).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { CapitalWebSocket } from '../src/CapitalWebSocket';
+import { HeartbeatConfig, StaleEvent } from '../src/types';
+
+describe('Stream Watchdog', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createWebSocket = async (heartbeat: HeartbeatConfig, epics: string[] = ['GOLD']) => {
+    const ws = new CapitalWebSocket({ cst: 'cst', securityToken: 'token', reconnect: false, heartbeat });
+    const sent: any[] = [];
+    const socket = {
+      readyState: 1,
+      send: (data: string) => sent.push(JSON.parse(data)),
+      close: jest.fn(),
+      terminate: jest.fn()
+    };
+    (ws as any).ws = socket;
+    (ws as any).onOpen();
+
+    const stale: StaleEvent[] = [];
+    ws.on('stale', event => stale.push(event));
+    const receive = (message: any) => (ws as any).onMessage(JSON.stringify(message));
+    const quote = (epic: string) => receive({ destination: 'quote', payload: { epic, bid: 1, ofr: 2 } });
+
+    const subscribing = ws.subscribeToMarketData(epics);
+    const subscriptions: Record<string, string> = {};
+    epics.forEach(epic => {
+      subscriptions[epic] = 'PROCESSED';
+    });
+    receive({ status: 'OK', destination: 'marketData.subscribe', correlationId: sent[0].correlationId, payload: { subscriptions } });
+    await subscribing;
+
+    return { ws, sent, socket, stale, receive, quote };
+  };
+
+  it('should report an epic once when its quotes stop', async () => {
+    const { ws, stale, quote } = await createWebSocket({ checkInterval: 1000, staleAfter: 5000 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    quote('GOLD');
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(stale).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(stale).toEqual([{ reason: 'quotes', epic: 'GOLD', lastUpdate: 1000, silentFor: 5000 }]);
+    expect(ws.getLastQuoteTime('GOLD')).toBe(1000);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(stale).toHaveLength(1);
+
+    // Reported again after the quotes resumed and stopped once more
+    quote('GOLD');
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(stale).toHaveLength(2);
+  });
+
+  it('should not report epics whose market is closed', async () => {
+    const isMarketOpen = jest.fn(async (epic: string) => epic === 'GOLD');
+    const { stale } = await createWebSocket({ checkInterval: 1000, staleAfter: 3000, isMarketOpen }, ['GOLD', 'SILVER']);
+
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(stale.map(event => event.epic)).toEqual(['GOLD']);
+    expect(isMarketOpen).toHaveBeenCalledWith('SILVER');
+  });
+
+  it('should force a reconnect when a ping is not answered', async () => {
+    const { ws, sent, socket, stale } = await createWebSocket({ checkInterval: 1000, pingInterval: 2000, pongTimeout: 3000, staleAfter: 60000 });
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(sent[sent.length - 1].destination).toBe('ping');
+    expect(socket.terminate).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(stale).toEqual([{ reason: 'pong', silentFor: 3000 }]);
+    expect(socket.terminate).toHaveBeenCalled();
+    expect(ws.getPongLatency()).toBeUndefined();
+  });
+
+  it('should measure pong latency', async () => {
+    const { ws, sent, socket, stale, receive } = await createWebSocket({ checkInterval: 1000, pingInterval: 2000, pongTimeout: 3000, staleAfter: 60000 });
+
+    await jest.advanceTimersByTimeAsync(2000);
+    const ping = sent[sent.length - 1];
+    await jest.advanceTimersByTimeAsync(250);
+    receive({ status: 'OK', destination: 'ping', correlationId: ping.correlationId, payload: {} });
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(ws.getPongLatency()).toBe(250);
+    expect(stale).toEqual([]);
+    expect(socket.terminate).not.toHaveBeenCalled();
+  });
+
+  it('should optionally reconnect when an epic goes stale', async () => {
+    const { socket } = await createWebSocket({ checkInterval: 1000, staleAfter: 2000, reconnectOnStale: true });
+
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(socket.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop watching after disconnect', async () => {
+    const { ws, sent, stale } = await createWebSocket({ checkInterval: 1000, pingInterval: 1000, staleAfter: 1000 });
+    const sentBefore = sent.length;
+
+    ws.disconnect();
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(sent).toHaveLength(sentBefore);
+    expect(stale).toEqual([]);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
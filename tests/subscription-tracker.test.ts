@@ -0,0 +1,170 @@
+import { SubscriptionTracker } from '../src/SubscriptionTracker';
+import { CapitalWebSocket } from '../src/CapitalWebSocket';
+import { SubscriptionLimitError } from '../src/errors';
+
+describe('Streaming Subscription Tracking', () => {
+  describe('SubscriptionTracker', () => {
+    it('should reference-count epics and report activation changes', () => {
+      const tracker = new SubscriptionTracker();
+
+      expect(tracker.addMarketData(['GOLD', 'SILVER'])).toEqual(['GOLD', 'SILVER']);
+      expect(tracker.addMarketData(['GOLD', 'OIL'])).toEqual(['OIL']);
+      expect(tracker.removeMarketData(['GOLD', 'SILVER'])).toEqual(['SILVER']);
+      expect(tracker.removeMarketData(['GOLD', 'UNKNOWN'])).toEqual(['GOLD']);
+      expect(tracker.getMarketDataEpics()).toEqual(['OIL']);
+    });
+
+    it('should count distinct instruments across quotes and OHLC bars', () => {
+      const tracker = new SubscriptionTracker();
+      tracker.addMarketData(['GOLD']);
+      tracker.addOHLC(['GOLD', 'SILVER'], 'MINUTE', 'classic');
+      tracker.addOHLC(['SILVER'], 'HOUR', 'classic');
+
+      expect(tracker.getInstruments().sort()).toEqual(['GOLD', 'SILVER']);
+      expect(tracker.getOHLCGroups()).toEqual([
+        { epics: ['GOLD', 'SILVER'], resolution: 'MINUTE', type: 'classic' },
+        { epics: ['SILVER'], resolution: 'HOUR', type: 'classic' }
+      ]);
+    });
+  });
+
+  describe('CapitalWebSocket', () => {
+    const sockets: CapitalWebSocket[] = [];
+
+    afterEach(() => {
+      // Rejects requests left unacknowledged and clears their timers
+      sockets.splice(0).forEach(ws => ws.disconnect());
+    });
+
+    const createWebSocket = (config: { maxInstruments?: number; spillover?: boolean } = {}) => {
+      const ws = new CapitalWebSocket({ cst: 'cst', securityToken: 'token', ...config });
+      sockets.push(ws);
+      const sent: any[] = [];
+      (ws as any).ws = { readyState: 1, send: (data: string) => sent.push(JSON.parse(data)), close: jest.fn() };
+      // Acknowledge every epic of the last request
+      const ack = (target: CapitalWebSocket, message: { destination: string; correlationId: string; payload: any }) => {
+        const subscriptions: Record<string, string> = {};
+        message.payload.epics.forEach((epic: string) => {
+          subscriptions[epic] = 'PROCESSED';
+        });
+        (target as any).onMessage(JSON.stringify({ status: 'OK', destination: message.destination, correlationId: message.correlationId, payload: { subscriptions } }));
+      };
+      return { ws, sent, ack: (message = sent[sent.length - 1]) => ack(ws, message), ackOn: ack };
+    };
+
+    it('should only send epics that are not subscribed yet', async () => {
+      const { ws, sent, ack } = createWebSocket();
+
+      const first = ws.subscribeToMarketData(['GOLD', 'SILVER']);
+      ack();
+      const gold = await first;
+
+      const second = await ws.subscribeToMarketData(['GOLD']);
+      expect(sent).toHaveLength(1);
+      expect(second.succeeded).toEqual(['GOLD']);
+
+      const third = ws.subscribeToMarketData(['GOLD', 'OIL']);
+      expect(sent[1].payload).toEqual({ epics: ['OIL'] });
+      ack();
+      expect((await third).succeeded.sort()).toEqual(['GOLD', 'OIL']);
+
+      // GOLD is still used by two handles
+      const released = gold.unsubscribe();
+      expect(sent[2].payload).toEqual({ epics: ['SILVER'] });
+      ack();
+      expect((await released).succeeded.sort()).toEqual(['GOLD', 'SILVER']);
+      expect(ws.getSubscribedInstruments().sort()).toEqual(['GOLD', 'OIL']);
+    });
+
+    it('should stop tracking epics the server rejected', async () => {
+      const { ws, sent } = createWebSocket();
+
+      const subscribing = ws.subscribeToMarketData(['GOLD', 'NOPE']);
+      (ws as any).onMessage(JSON.stringify({
+        status: 'OK',
+        destination: 'marketData.subscribe',
+        correlationId: sent[0].correlationId,
+        payload: { subscriptions: { GOLD: 'PROCESSED', NOPE: 'ERROR: invalid.epic' } }
+      }));
+
+      await subscribing;
+      expect(ws.getSubscribedInstruments()).toEqual(['GOLD']);
+    });
+
+    it('should track OHLC subscriptions per resolution', async () => {
+      const { ws, sent, ack } = createWebSocket();
+
+      const first = ws.subscribeToOHLCData(['GOLD'], ['MINUTE', 'HOUR']);
+      expect(sent[0].payload).toEqual({ epics: ['GOLD'], resolutions: ['MINUTE', 'HOUR'] });
+      ack();
+      await first;
+
+      const second = ws.subscribeToOHLCData(['GOLD', 'SILVER'], ['MINUTE']);
+      expect(sent[1].payload).toEqual({ epics: ['SILVER'], resolutions: ['MINUTE'] });
+      ack();
+      await second;
+
+      const released = ws.unsubscribeFromOHLCData(['GOLD'], ['MINUTE', 'HOUR']);
+      // GOLD/MINUTE is still referenced by the second subscription
+      expect(sent[2].payload).toEqual({ epics: ['GOLD'], resolutions: ['HOUR'], types: ['classic'] });
+      ack();
+      await released;
+    });
+
+    it('should resubscribe tracked epics after reconnecting', () => {
+      const { ws, sent } = createWebSocket();
+      ws.subscribeToMarketData(['GOLD', 'SILVER']);
+      ws.subscribeToOHLCData(['GOLD'], ['HOUR']);
+
+      (ws as any).onOpen();
+
+      expect(sent.slice(2).map(message => [message.destination, message.payload])).toEqual([
+        ['marketData.subscribe', { epics: ['GOLD', 'SILVER'] }],
+        ['OHLCMarketData.subscribe', { epics: ['GOLD'], resolutions: ['HOUR'], type: 'classic' }]
+      ]);
+    });
+
+    it('should refuse to exceed the instrument limit', async () => {
+      const { ws, sent } = createWebSocket({ maxInstruments: 2 });
+      ws.subscribeToMarketData(['GOLD']);
+      ws.subscribeToOHLCData(['SILVER']);
+
+      const error = await ws.subscribeToMarketData(['GOLD', 'OIL', 'GAS']).catch(e => e);
+
+      expect(error).toBeInstanceOf(SubscriptionLimitError);
+      expect(error.message).toBe('Cannot subscribe to OIL, GAS: a streaming connection is limited to 2 instruments');
+      expect(error.epics).toEqual(['OIL', 'GAS']);
+      await expect(ws.subscribeToOHLCData(['OIL'], ['HOUR'])).rejects.toBeInstanceOf(SubscriptionLimitError);
+      expect(sent).toHaveLength(2);
+      // Already subscribed instruments remain available
+      ws.subscribeToMarketData(['SILVER']);
+      expect(sent).toHaveLength(3);
+    });
+
+    it('should spill instruments beyond the limit over to a second connection', async () => {
+      const { ws, sent, ack, ackOn } = createWebSocket({ maxInstruments: 1, spillover: true });
+      const quotes: string[] = [];
+      ws.on('quote', quote => quotes.push(quote.epic));
+
+      const subscribing = ws.subscribeToMarketData(['GOLD', 'SILVER']);
+      expect(sent[0].payload).toEqual({ epics: ['GOLD'] });
+      ack();
+
+      const spillover = ws.getSpilloverConnection()!;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const [correlationId] = Array.from((spillover as any).pendingRequests.keys()) as string[];
+      ackOn(spillover, { destination: 'marketData.subscribe', correlationId, payload: { epics: ['SILVER'] } });
+
+      const handle = await subscribing;
+      expect(handle.succeeded.sort()).toEqual(['GOLD', 'SILVER']);
+      expect(spillover.getSubscribedInstruments()).toEqual(['SILVER']);
+
+      // Data from the spill-over connection is re-emitted
+      (spillover as any).onMessage(JSON.stringify({ destination: 'quote', payload: { epic: 'SILVER', bid: 25 } }));
+      expect(quotes).toEqual(['SILVER']);
+
+      ws.disconnect();
+      expect(ws.getSpilloverConnection()).toBeUndefined();
+    });
+  });
+});
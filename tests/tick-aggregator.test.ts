@@ -0,0 +1,98 @@
+import { EventEmitter } from 'events';
+import { TickAggregator } from '../src/TickAggregator';
+import { Candle, QuoteData } from '../src/types';
+
+describe('TickAggregator', () => {
+  const T0 = Date.UTC(2024, 0, 2, 10, 0);
+
+  const quote = (offset: number, bid: number, epic = 'EURUSD'): QuoteData => ({
+    epic,
+    product: 'CFD',
+    bid,
+    bidQty: 1,
+    ofr: bid + 0.0002,
+    ofrQty: 1,
+    timestamp: T0 + offset
+  });
+
+  const collect = (aggregator: TickAggregator) => {
+    const closed: Candle[] = [];
+    aggregator.on('barClose', (bar: Candle) => closed.push(bar));
+    return closed;
+  };
+
+  it('should build time bars aligned to the interval', () => {
+    const aggregator = new TickAggregator({ epic: 'EURUSD', bar: { type: 'time', interval: 10000 } });
+    const closed = collect(aggregator);
+
+    [[1000, 1.1], [4000, 1.3], [9000, 1.0], [9500, 1.2], [12000, 1.25], [35000, 1.4]]
+      .forEach(([offset, bid]) => aggregator.addQuote(quote(offset, bid)));
+
+    expect(closed).toEqual([
+      { epic: 'EURUSD', resolution: '10s', side: 'bid', time: T0, open: 1.1, high: 1.3, low: 1.0, close: 1.2, ticks: 4 },
+      { epic: 'EURUSD', resolution: '10s', side: 'bid', time: T0 + 10000, open: 1.25, high: 1.25, low: 1.25, close: 1.25, ticks: 1 }
+    ]);
+    expect(aggregator.getCurrentBar()).toMatchObject({ time: T0 + 30000, open: 1.4, ticks: 1 });
+  });
+
+  it('should drop late quotes for earlier intervals', () => {
+    const aggregator = new TickAggregator({ epic: 'EURUSD', bar: { type: 'time', interval: 120000 } });
+    aggregator.addQuote(quote(130000, 1.1));
+    aggregator.addQuote(quote(5000, 9));
+
+    expect(aggregator.getResolution()).toBe('120s');
+    expect(aggregator.getCurrentBar()).toMatchObject({ high: 1.1, ticks: 1 });
+  });
+
+  it('should build tick-count bars', () => {
+    const aggregator = new TickAggregator({ epic: 'EURUSD', bar: { type: 'tick', count: 3 } });
+    const closed = collect(aggregator);
+
+    [1.1, 1.2, 1.0, 1.3, 1.4].forEach((bid, i) => aggregator.addQuote(quote(i * 1000, bid)));
+
+    expect(closed).toHaveLength(1);
+    expect(closed[0]).toMatchObject({ resolution: '3t', time: T0, open: 1.1, high: 1.2, low: 1.0, close: 1.0, ticks: 3 });
+    expect(aggregator.getCurrentBar()).toMatchObject({ time: T0 + 3000, open: 1.3, close: 1.4, ticks: 2 });
+  });
+
+  it('should build range bars', () => {
+    const aggregator = new TickAggregator({ epic: 'EURUSD', bar: { type: 'range', range: 0.5 } });
+    const closed = collect(aggregator);
+
+    [100, 100.2, 99.8, 99.7, 99.9].forEach((bid, i) => aggregator.addQuote(quote(i, bid)));
+
+    expect(closed).toHaveLength(1);
+    expect(closed[0]).toMatchObject({ resolution: '0.5r', open: 100, high: 100.2, low: 99.7, close: 99.7, ticks: 4 });
+    expect(aggregator.getCurrentBar()).toMatchObject({ open: 99.9, ticks: 1 });
+  });
+
+  it('should aggregate the configured price side', () => {
+    const aggregator = new TickAggregator({ epic: 'EURUSD', bar: { type: 'tick', count: 10 }, side: 'mid' });
+    aggregator.addQuote(quote(0, 1.1));
+    expect(aggregator.getCurrentBar()?.open).toBeCloseTo(1.1001);
+    expect(aggregator.getCurrentBar()?.side).toBe('mid');
+  });
+
+  it('should consume quote events for its epic and flush on demand', () => {
+    const ws = new EventEmitter() as any;
+    const aggregator = new TickAggregator({ epic: 'EURUSD', bar: { type: 'time', interval: 60000 } });
+    const updates: Candle[] = [];
+    aggregator.on('barUpdate', (bar: Candle) => updates.push(bar));
+    aggregator.attach(ws);
+
+    ws.emit('quote', quote(0, 1.1));
+    ws.emit('quote', quote(100, 5, 'GOLD'));
+    expect(updates).toHaveLength(1);
+
+    expect(aggregator.flush()).toMatchObject({ open: 1.1, ticks: 1 });
+    expect(aggregator.getCurrentBar()).toBeUndefined();
+
+    aggregator.detach();
+    expect(ws.listenerCount('quote')).toBe(0);
+  });
+
+  it('should reject invalid bar sizes', () => {
+    expect(() => new TickAggregator({ epic: 'EURUSD', bar: { type: 'time', interval: 0 } })).toThrow('Invalid time bar size');
+    expect(() => new TickAggregator({ epic: 'EURUSD', bar: { type: 'tick', count: 2.5 } })).toThrow('Invalid tick bar size');
+  });
+});
@@ -0,0 +1,120 @@
+import { CapitalAPI } from '../src/CapitalAPI';
+import { CapitalWebSocket } from '../src/CapitalWebSocket';
+
+describe('WebSocket Auto-Ping and Latency', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createWebSocket = () => {
+    const ws = new CapitalWebSocket({ cst: 'cst', securityToken: 'token' });
+    const sent: any[] = [];
+    (ws as any).ws = { readyState: 1, send: (data: string) => sent.push(JSON.parse(data)), close: jest.fn() };
+    (ws as any).onOpen();
+    const pong = (correlationId: string) =>
+      (ws as any).onMessage(JSON.stringify({ status: 'OK', destination: 'ping', correlationId, payload: {} }));
+    return { ws, sent, pong };
+  };
+
+  it('should keep a single auto-ping timer and clear it on disconnect', () => {
+    const { ws, sent } = createWebSocket();
+
+    ws.startAutoPing(1000);
+    ws.startAutoPing(1000);
+    expect(jest.getTimerCount()).toBe(1);
+
+    jest.advanceTimersByTime(3000);
+    expect(sent.map(message => message.destination)).toEqual(['ping', 'ping', 'ping']);
+
+    ws.disconnect();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should keep the spill-over connection alive with the same auto-ping', async () => {
+    const sockets: { sent: any[] }[] = [];
+    const ws = new CapitalWebSocket({
+      cst: 'cst',
+      securityToken: 'token',
+      maxInstruments: 1,
+      spillover: true,
+      createSocket: () => {
+        const socket = { readyState: 1, sent: [] as any[], on: jest.fn(), close: jest.fn(), terminate: jest.fn(),
+          send: (data: string) => socket.sent.push(JSON.parse(data)) };
+        sockets.push(socket);
+        return socket as any;
+      }
+    });
+    const connecting = ws.connect();
+    await jest.advanceTimersByTimeAsync(0);
+    await connecting;
+
+    ws.startAutoPing(1000);
+    ws.subscribeToMarketData(['GOLD', 'SILVER']).catch(() => undefined);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sockets).toHaveLength(2);
+
+    const pings = () => sockets.map(socket => socket.sent.filter(message => message.destination === 'ping').length);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(pings()).toEqual([1, 1]);
+
+    ws.stopAutoPing();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(pings()).toEqual([1, 1]);
+
+    ws.startAutoPing(1000);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(pings()).toEqual([2, 2]);
+
+    ws.disconnect();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(pings()).toEqual([2, 2]);
+  });
+
+  it('should start only one auto-ping across connectWebSocket calls', async () => {
+    const api = new CapitalAPI({ apiKey: 'key' });
+    (api as any).cst = 'cst';
+    (api as any).securityToken = 'token';
+
+    const connecting = api.connectWebSocket();
+    await jest.advanceTimersByTimeAsync(0);
+    const ws = await connecting;
+    await api.connectWebSocket();
+
+    expect((ws as any).autoPingTimer).toBeDefined();
+    expect(jest.getTimerCount()).toBe(1);
+
+    api.disconnectWebSocket();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should report min, average and p95 round-trip times', () => {
+    const { ws, sent, pong } = createWebSocket();
+    expect(ws.getLatencyStats()).toBeUndefined();
+
+    for (let latency = 10; latency <= 200; latency += 10) {
+      ws.ping();
+      jest.advanceTimersByTime(latency);
+      pong(sent[sent.length - 1].correlationId);
+    }
+
+    expect(ws.getLatencyStats()).toEqual({ samples: 20, last: 200, min: 10, avg: 105, p95: 190 });
+    expect(ws.getPongLatency()).toBe(200);
+  });
+
+  it('should ignore pongs that do not match a ping', () => {
+    const { ws, sent, pong } = createWebSocket();
+
+    const correlationId = ws.ping();
+    expect(sent[0].correlationId).toBe(correlationId);
+    pong('unknown');
+    jest.advanceTimersByTime(30);
+    pong(correlationId);
+    pong(correlationId);
+
+    expect(ws.getLatencyStats()).toEqual({ samples: 1, last: 30, min: 30, avg: 30, p95: 30 });
+  });
+});
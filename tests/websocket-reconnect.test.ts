@@ -0,0 +1,217 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { CapitalWebSocket, CapitalWebSocketConfig } from '../src/CapitalWebSocket';
+
+class FakeSocket extends EventEmitter {
+  readyState = 0;
+  sent: any[] = [];
+  send = jest.fn((data: string) => this.sent.push(JSON.parse(data)));
+  close = jest.fn(() => this.drop());
+  terminate = jest.fn(() => this.drop());
+
+  open(): void {
+    this.readyState = 1;
+    this.emit('open');
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.emit('close', 1006, '');
+  }
+
+  // Acknowledge every epic of a request
+  ack(message: any, status = 'OK'): void {
+    const subscriptions: Record<string, string> = {};
+    message.payload.epics.forEach((epic: string) => {
+      subscriptions[epic] = 'PROCESSED';
+    });
+    this.emit('message', JSON.stringify({ status, destination: message.destination, correlationId: message.correlationId, payload: { subscriptions } }));
+  }
+}
+
+describe('WebSocket Reconnection', () => {
+  let sockets: FakeSocket[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sockets = [];
+    (WebSocket as unknown as jest.Mock).mockImplementation(() => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const createWebSocket = (config: Partial<CapitalWebSocketConfig> = {}) => {
+    const ws = new CapitalWebSocket({
+      cst: 'cst',
+      securityToken: 'token',
+      reconnect: { baseDelay: 100, maxDelay: 250, maxAttempts: 3, jitter: false },
+      ...config
+    });
+    const events: any[][] = [];
+    ['state', 'connect', 'disconnect', 'reconnecting', 'reconnected', 'error'].forEach(event => {
+      ws.on(event as any, (...args: any[]) => events.push([event, ...args]));
+    });
+    return { ws, events, of: (name: string) => events.filter(([event]) => event === name).map(([, ...args]) => args) };
+  };
+
+  const connect = async (ws: CapitalWebSocket) => {
+    const connecting = ws.connect();
+    sockets[sockets.length - 1].open();
+    await connecting;
+  };
+
+  it('should reconnect with exponential backoff', async () => {
+    const { ws, of } = createWebSocket();
+    await connect(ws);
+
+    sockets[0].drop();
+    expect(ws.getConnectionState()).toBe('reconnecting');
+    jest.advanceTimersByTime(99);
+    expect(sockets).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(2);
+
+    // Attempts that fail before opening back off further, up to maxDelay
+    sockets[1].drop();
+    jest.advanceTimersByTime(200);
+    sockets[2].drop();
+
+    expect(of('reconnecting')).toEqual([[1, 100], [2, 200], [3, 250]]);
+    expect(of('disconnect')).toHaveLength(1);
+    expect(of('state').map(([state]) => state)).toEqual(['connecting', 'open', 'reconnecting']);
+  });
+
+  it('should randomize delays with jitter', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const { ws, of } = createWebSocket({ reconnect: { baseDelay: 100 } });
+    await connect(ws);
+
+    sockets[0].drop();
+
+    expect(of('reconnecting')).toEqual([[1, 50]]);
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    const { ws, of } = createWebSocket();
+    await connect(ws);
+
+    sockets[0].drop();
+    for (const delay of [100, 200, 250]) {
+      jest.advanceTimersByTime(delay);
+      sockets[sockets.length - 1].drop();
+    }
+
+    expect(sockets).toHaveLength(4);
+    expect(ws.getConnectionState()).toBe('closed');
+    expect(of('error').map(([error]) => error.message)).toEqual(['Max reconnection attempts reached']);
+  });
+
+  it('should not reconnect after disconnect()', async () => {
+    const { ws, of } = createWebSocket();
+    await connect(ws);
+
+    ws.disconnect();
+    jest.advanceTimersByTime(60000);
+
+    expect(sockets[0].close).toHaveBeenCalled();
+    expect(sockets).toHaveLength(1);
+    expect(ws.getConnectionState()).toBe('closed');
+    expect(of('disconnect')).toHaveLength(1);
+    expect(of('reconnecting')).toHaveLength(0);
+  });
+
+  it('should not reconnect when disabled', async () => {
+    const { ws } = createWebSocket({ reconnect: false });
+    await connect(ws);
+
+    sockets[0].drop();
+    jest.advanceTimersByTime(60000);
+
+    expect(sockets).toHaveLength(1);
+    expect(ws.getConnectionState()).toBe('closed');
+  });
+
+  it('should emit reconnected once every subscription is acknowledged again', async () => {
+    const { ws, of } = createWebSocket();
+    await connect(ws);
+
+    const quotes = ws.subscribeToMarketData(['GOLD', 'SILVER']);
+    sockets[0].ack(sockets[0].sent[0]);
+    await quotes;
+    const bars = ws.subscribeToOHLCData(['GOLD'], ['HOUR']);
+    sockets[0].ack(sockets[0].sent[1]);
+    await bars;
+
+    sockets[0].drop();
+    jest.advanceTimersByTime(100);
+    sockets[1].open();
+
+    const [marketData, ohlc] = sockets[1].sent;
+    expect(marketData).toMatchObject({ destination: 'marketData.subscribe', payload: { epics: ['GOLD', 'SILVER'] } });
+    expect(ohlc).toMatchObject({ destination: 'OHLCMarketData.subscribe', payload: { epics: ['GOLD'], resolutions: ['HOUR'] } });
+
+    sockets[1].ack(marketData);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(of('reconnected')).toHaveLength(0);
+
+    sockets[1].ack(ohlc);
+    await jest.advanceTimersByTimeAsync(0);
+    const [[resubscriptions]] = of('reconnected');
+    expect(resubscriptions.map((result: any) => result.succeeded)).toEqual([['GOLD', 'SILVER'], ['GOLD']]);
+    expect(ws.getConnectionState()).toBe('open');
+  });
+
+  it('should retry the reconnect when resubscribing fails', async () => {
+    const { ws, of } = createWebSocket();
+    await connect(ws);
+    const quotes = ws.subscribeToMarketData(['GOLD']);
+    sockets[0].ack(sockets[0].sent[0]);
+    await quotes;
+
+    sockets[0].drop();
+    jest.advanceTimersByTime(100);
+    sockets[1].open();
+    sockets[1].ack(sockets[1].sent[0], 'FAILED');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(of('error').map(([error]) => error.message)).toEqual(['Subscription Error: FAILED']);
+    expect(sockets[1].close).toHaveBeenCalled();
+    // The failed reconnect still counts as an attempt
+    expect(of('reconnecting')).toEqual([[1, 100], [2, 200]]);
+    expect(of('reconnected')).toHaveLength(0);
+  });
+
+  it('should open once and fail an initial connection without reconnecting', async () => {
+    const { ws, of } = createWebSocket();
+    await connect(ws);
+    jest.advanceTimersByTime(10000);
+    expect(of('connect')).toHaveLength(1);
+
+    const second = createWebSocket();
+    const connecting = second.ws.connect();
+    sockets[1].drop();
+
+    await expect(connecting).rejects.toThrow('WebSocket closed before the connection was established');
+    jest.advanceTimersByTime(60000);
+    expect(sockets).toHaveLength(2);
+    expect(second.ws.getConnectionState()).toBe('closed');
+  });
+
+  it('should time out a connection that does not open', async () => {
+    const { ws } = createWebSocket({ connectTimeout: 5000 });
+
+    const connecting = ws.connect();
+    jest.advanceTimersByTime(5000);
+
+    await expect(connecting).rejects.toThrow('WebSocket connection timed out after 5000ms');
+    expect(sockets[0].terminate).toHaveBeenCalled();
+    expect(ws.getConnectionState()).toBe('closed');
+  });
+});
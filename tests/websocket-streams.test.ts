@@ -0,0 +1,131 @@
+import { CapitalWebSocket } from '../src/CapitalWebSocket';
+import { EventStream } from '../src/EventStream';
+import { Candle, QuoteData } from '../src/types';
+
+describe('Per-epic WebSocket Streams', () => {
+  const createWebSocket = () => {
+    const ws = new CapitalWebSocket({ cst: 'cst', securityToken: 'token' });
+    (ws as any).ws = { readyState: 1, send: jest.fn(), close: jest.fn() };
+    const receive = (destination: string, payload: any) => (ws as any).onMessage(JSON.stringify({ destination, payload }));
+    return { ws, receive };
+  };
+
+  const quote = (epic: string, bid: number) => ({ epic, product: 'CFD', bid, bidQty: 1, ofr: bid + 1, ofrQty: 1, timestamp: 1 });
+  const ohlc = (epic: string, priceType: string, c: number, type = 'classic') =>
+    ({ resolution: 'MINUTE', epic, type, priceType, t: 60000, o: c, h: c, l: c, c });
+
+  it('should route quotes to the matching epic only', () => {
+    const { ws, receive } = createWebSocket();
+    const gold: number[] = [];
+    const all: string[] = [];
+    ws.quotes('GOLD').on(q => gold.push(q.bid));
+    ws.on('quote', q => all.push(q.epic));
+
+    receive('quote', quote('GOLD', 2000));
+    receive('quote', quote('SILVER', 25));
+    receive('quote', quote('GOLD', 2001));
+
+    expect(gold).toEqual([2000, 2001]);
+    expect(all).toEqual(['GOLD', 'SILVER', 'GOLD']);
+  });
+
+  it('should route classic OHLC bars as candles by epic, resolution and side', () => {
+    const { ws, receive } = createWebSocket();
+    const both: string[] = [];
+    const bids: Candle[] = [];
+    ws.candles('GOLD', 'MINUTE').on(c => both.push(c.side));
+    ws.candles('GOLD', 'MINUTE', 'bid').on(c => bids.push(c));
+    ws.candles('GOLD', 'HOUR').on(() => both.push('hour'));
+
+    receive('ohlc.event', ohlc('GOLD', 'bid', 2000));
+    receive('ohlc.event', ohlc('GOLD', 'ask', 2001));
+    receive('ohlc.event', ohlc('GOLD', 'bid', 2002, 'heikin-ashi'));
+    receive('ohlc.event', ohlc('SILVER', 'bid', 25));
+
+    expect(both).toEqual(['bid', 'ask']);
+    expect(bids).toEqual([{ epic: 'GOLD', resolution: 'MINUTE', side: 'bid', time: 60000, open: 2000, high: 2000, low: 2000, close: 2000 }]);
+  });
+
+  it('should type-check listeners for known events', () => {
+    const { ws } = createWebSocket();
+
+    // @ts-expect-error quote listeners receive QuoteData
+    ws.on('quote', (quote: string) => quote);
+    // @ts-expect-error QuoteData has no offer field
+    ws.on('quote', quote => quote.offer);
+    // Other events keep the plain EventEmitter signature
+    ws.on('close', (code, reason) => [code, reason]);
+  });
+
+  it('should be consumable with for await', async () => {
+    const { ws, receive } = createWebSocket();
+    const stream = ws.quotes('GOLD');
+
+    // Values are only buffered once iteration has started
+    receive('quote', quote('GOLD', 1));
+    const received: number[] = [];
+    const consuming = (async () => {
+      for await (const q of stream) {
+        received.push(q.bid);
+        if (received.length === 2) {
+          break;
+        }
+      }
+    })();
+
+    receive('quote', quote('GOLD', 2));
+    receive('quote', quote('GOLD', 3));
+    await consuming;
+
+    expect(received).toEqual([2, 3]);
+    // Breaking out of the loop only stops that iterator
+    expect(stream.isClosed()).toBe(false);
+  });
+
+  it('should unregister closed streams', () => {
+    const { ws, receive } = createWebSocket();
+    const values: number[] = [];
+    const stream = ws.quotes('GOLD').on(q => values.push(q.bid));
+
+    stream.close();
+    receive('quote', quote('GOLD', 2000));
+
+    expect(values).toEqual([]);
+    expect((ws as any).quoteStreams.size).toBe(0);
+  });
+
+  it('should end iterators when the connection is closed on purpose', async () => {
+    const { ws } = createWebSocket();
+    const stream = ws.candles('GOLD', 'MINUTE');
+    const iterator = stream[Symbol.asyncIterator]();
+
+    const next = iterator.next();
+    ws.disconnect();
+
+    expect(await next).toEqual({ value: undefined, done: true });
+    expect(stream.isClosed()).toBe(true);
+  });
+
+  describe('EventStream', () => {
+    it('should buffer values per iterator and drop the oldest beyond the buffer size', async () => {
+      const stream = new EventStream<number>(undefined, 2);
+      const iterator = stream[Symbol.asyncIterator]();
+
+      [1, 2, 3].forEach(value => stream.push(value));
+
+      expect(await iterator.next()).toEqual({ value: 2, done: false });
+      expect(await iterator.next()).toEqual({ value: 3, done: false });
+      await iterator.return!();
+      stream.push(4);
+      expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it('should call onClose once', () => {
+      const onClose = jest.fn();
+      const stream = new EventStream<QuoteData>(onClose);
+      stream.close();
+      stream.close();
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+  });
+});
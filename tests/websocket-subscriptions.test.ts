@@ -0,0 +1,103 @@
+import { CapitalWebSocket } from '../src/CapitalWebSocket';
+import { SubscriptionError } from '../src/errors';
+
+describe('WebSocket Subscription Acknowledgements', () => {
+  const createWebSocket = (subscriptionTimeout?: number) => {
+    const ws = new CapitalWebSocket({ cst: 'cst', securityToken: 'token', subscriptionTimeout });
+    const sent: any[] = [];
+    (ws as any).ws = { readyState: 1, send: (data: string) => sent.push(JSON.parse(data)), close: jest.fn() };
+    const reply = (message: any) => (ws as any).onMessage(JSON.stringify(message));
+    return { ws, sent, reply };
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should resolve with per-epic results for the matching correlationId', async () => {
+    const { ws, sent, reply } = createWebSocket();
+    const events: any[] = [];
+    ws.on('subscription', message => events.push(message));
+
+    const first = ws.subscribeToMarketData(['GOLD', 'NOPE']);
+    const second = ws.subscribeToMarketData(['SILVER']);
+
+    reply({ status: 'OK', destination: 'marketData.subscribe', correlationId: sent[1].correlationId, payload: { subscriptions: { SILVER: 'PROCESSED' } } });
+    reply({
+      status: 'OK',
+      destination: 'marketData.subscribe',
+      correlationId: sent[0].correlationId,
+      payload: { subscriptions: { GOLD: 'PROCESSED', NOPE: 'ERROR: invalid.epic' } }
+    });
+
+    const handle = await first;
+    expect(handle).toMatchObject({
+      destination: 'marketData.subscribe',
+      correlationId: sent[0].correlationId,
+      succeeded: ['GOLD'],
+      failed: [{ epic: 'NOPE', status: 'ERROR: invalid.epic' }]
+    });
+    expect((await second).succeeded).toEqual(['SILVER']);
+    // The raw replies are still emitted
+    expect(events).toHaveLength(2);
+  });
+
+  it('should unsubscribe through the handle', async () => {
+    const { ws, sent, reply } = createWebSocket();
+
+    const subscribing = ws.subscribeToOHLCData(['GOLD'], ['MINUTE'], 'classic');
+    reply({ status: 'OK', destination: 'OHLCMarketData.subscribe', correlationId: sent[0].correlationId, payload: { subscriptions: { GOLD: 'PROCESSED' } } });
+    const handle = await subscribing;
+
+    const unsubscribing = handle.unsubscribe();
+    expect(sent[1]).toMatchObject({
+      destination: 'OHLCMarketData.unsubscribe',
+      payload: { epics: ['GOLD'], resolutions: ['MINUTE'], types: ['classic'] }
+    });
+    reply({ status: 'OK', destination: 'OHLCMarketData.unsubscribe', correlationId: sent[1].correlationId, payload: { subscriptions: { GOLD: 'PROCESSED' } } });
+
+    const result = await unsubscribing;
+    expect(result.succeeded).toEqual(['GOLD']);
+    expect('unsubscribe' in result).toBe(false);
+  });
+
+  it('should reject when the server refuses the request', async () => {
+    const { ws, sent, reply } = createWebSocket();
+
+    const subscribing = ws.subscribeToMarketData(['GOLD']);
+    reply({ status: 'FAILED', destination: 'marketData.subscribe', correlationId: sent[0].correlationId, payload: { errorCode: 'error.invalid.session.token' } });
+
+    const error = await subscribing.catch(e => e);
+    expect(error).toBeInstanceOf(SubscriptionError);
+    expect(error.message).toBe('Subscription Error: error.invalid.session.token');
+    expect(error.errorCode).toBe('error.invalid.session.token');
+    expect(error.correlationId).toBe(sent[0].correlationId);
+  });
+
+  it('should reject when no acknowledgement arrives in time', async () => {
+    jest.useFakeTimers();
+    const { ws } = createWebSocket(5000);
+
+    const subscribing = ws.subscribeToMarketData(['GOLD']);
+    jest.advanceTimersByTime(5000);
+
+    await expect(subscribing).rejects.toThrow('No response to marketData.subscribe within 5000ms');
+  });
+
+  it('should reject pending requests when the connection goes away', async () => {
+    const { ws } = createWebSocket();
+
+    const subscribing = ws.subscribeToMarketData(['GOLD']);
+    ws.disconnect();
+
+    await expect(subscribing).rejects.toThrow('WebSocket disconnected before marketData.subscribe was acknowledged');
+  });
+
+  it('should reject when not connected', async () => {
+    const ws = new CapitalWebSocket({ cst: 'cst', securityToken: 'token' });
+    await expect(ws.subscribeToMarketData(['GOLD'])).rejects.toThrow('WebSocket is not connected');
+    await expect(ws.subscribeToOHLCData(['GOLD'], ['HOUR'])).rejects.toThrow('WebSocket is not connected');
+    // Nothing stays tracked for the next connection
+    expect(ws.hasMarketDataSubscription('GOLD')).toBe(false);
+  });
+});